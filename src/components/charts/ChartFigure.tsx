@@ -0,0 +1,54 @@
+import { useId, useState, type ReactNode } from "react";
+import { useI18n } from "../i18n";
+import { Button } from "../ui/button";
+
+interface ChartFigureProps {
+  title: string;
+  description: string;
+  // The chart's figures as a <table>; always read to screen readers and
+  // shown to anyone who asks for it
+  table: ReactNode;
+  // The SVG chart
+  children: ReactNode;
+  // Colour key, if the chart needs one
+  legend?: ReactNode;
+}
+
+export const ChartFigure = ({
+  title,
+  description,
+  table,
+  children,
+  legend,
+}: ChartFigureProps): JSX.Element => {
+  const { t } = useI18n();
+  const [showTable, setShowTable] = useState(false);
+  const id = useId();
+  const tableId = `${id}-table`;
+
+  return (
+    <figure className="flex flex-col gap-4 text-white">
+      <figcaption>
+        <h4 className="text-[#d2a0ff] text-lg">{title}</h4>
+        <p className="text-sm text-[#aaa0c2]">{description}</p>
+      </figcaption>
+      <div className="overflow-x-auto">
+        <div className="relative min-w-[480px]">{children}</div>
+      </div>
+      {legend}
+      <Button
+        type="button"
+        variant="link"
+        aria-expanded={showTable}
+        aria-controls={tableId}
+        onClick={() => setShowTable((shown) => !shown)}
+        className="w-fit text-[#d2a0ff] px-0"
+      >
+        {t(showTable ? "chart.hideTable" : "chart.showTable")}
+      </Button>
+      <div id={tableId} className={showTable ? "overflow-x-auto" : "sr-only"}>
+        {table}
+      </div>
+    </figure>
+  );
+};
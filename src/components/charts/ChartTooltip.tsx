@@ -0,0 +1,28 @@
+import type { ReactNode } from "react";
+
+interface ChartTooltipProps {
+  // Anchor in viewBox units; the tooltip sits above it
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  children: ReactNode;
+}
+
+// Marks carry the same text as their accessible name, so screen readers
+// skip the tooltip itself
+export const ChartTooltip = ({
+  x,
+  y,
+  width,
+  height,
+  children,
+}: ChartTooltipProps): JSX.Element => (
+  <div
+    aria-hidden
+    className="pointer-events-none absolute z-10 -translate-x-1/2 -translate-y-full -mt-2 whitespace-nowrap rounded bg-neutralswhite px-3 py-2 text-xs text-neutralsdark shadow-lg"
+    style={{ left: `${(x / width) * 100}%`, top: `${(y / height) * 100}%` }}
+  >
+    {children}
+  </div>
+);
@@ -0,0 +1,3 @@
+export { ChartFigure } from "./ChartFigure";
+export { ChartTooltip } from "./ChartTooltip";
+export { useChartMarks } from "./useChartMarks";
@@ -0,0 +1,68 @@
+import { useRef, useState, type KeyboardEvent } from "react";
+
+/**
+ * Focus and tooltip state for the marks of a chart (bars, points). The
+ * chart is a single tab stop; arrow keys, Home and End move between marks
+ * and Escape hides the tooltip until the next move.
+ */
+export const useChartMarks = (count: number) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [focused, setFocused] = useState<number | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const [tabStop, setTabStop] = useState(0);
+  const marks = useRef<(SVGElement | null)[]>([]);
+
+  const focusMark = (index: number) =>
+    marks.current[Math.max(0, Math.min(index, count - 1))]?.focus();
+
+  const markProps = (index: number) => ({
+    ref: (element: SVGElement | null) => {
+      marks.current[index] = element;
+    },
+    // The chart may have fewer marks than when it was last focused
+    tabIndex: index === Math.min(tabStop, count - 1) ? 0 : -1,
+    onFocus: () => {
+      setTabStop(index);
+      setFocused(index);
+      setDismissed(false);
+    },
+    onBlur: () => setFocused(null),
+    onMouseEnter: () => {
+      setHovered(index);
+      setDismissed(false);
+    },
+    onMouseLeave: () => setHovered(null),
+    onKeyDown: (e: KeyboardEvent) => {
+      switch (e.key) {
+        case "ArrowRight":
+        case "ArrowDown":
+          focusMark(index + 1);
+          break;
+        case "ArrowLeft":
+        case "ArrowUp":
+          focusMark(index - 1);
+          break;
+        case "Home":
+          focusMark(0);
+          break;
+        case "End":
+          focusMark(count - 1);
+          break;
+        case "Escape":
+          setDismissed(true);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    },
+  });
+
+  return {
+    // Mark whose tooltip is shown
+    active: dismissed ? null : (hovered ?? focused),
+    // Mark with keyboard focus, which keeps its outline without a tooltip
+    focused,
+    markProps,
+  };
+};
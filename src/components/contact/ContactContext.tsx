@@ -0,0 +1,15 @@
+import { createContext, useContext } from "react";
+import type { ContactRoiAttachment } from "../../lib/contact";
+
+export interface ContactContextValue {
+  openContact: () => void;
+  // The calculator publishes its latest result here so leads can carry it
+  setRoiAttachment: (attachment: ContactRoiAttachment | null) => void;
+}
+
+export const ContactContext = createContext<ContactContextValue>({
+  openContact: () => {},
+  setRoiAttachment: () => {},
+});
+
+export const useContact = () => useContext(ContactContext);
@@ -0,0 +1,343 @@
+import React, { useState } from "react";
+import { useLocation } from "react-router-dom";
+import { dexes } from "../../content/dexes";
+import { siteContent } from "../../content/site";
+import {
+  contactLimits,
+  contactRetryAfter,
+  emptyContactForm,
+  isHoneypotFilled,
+  recordContactSubmission,
+  toContactSubmission,
+  validateContactForm,
+  type ContactAdapter,
+  type ContactField,
+  type ContactFormErrors,
+  type ContactFormIssue,
+  type ContactFormValues,
+  type ContactRoiAttachment,
+} from "../../lib/contact";
+import type { MessageKey } from "../../lib/i18n";
+import { createRoiFormatter, getCurrency } from "../../lib/roi";
+import { browserStorage } from "../../lib/storage";
+import { useI18n } from "../i18n";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+
+type SubmitStatus =
+  | { kind: "idle" }
+  | { kind: "sending" }
+  | { kind: "sent" }
+  | { kind: "error"; message: MessageKey; minutes?: number };
+
+// Character limits quoted by the length messages
+const issueLimits: Partial<Record<ContactFormIssue, number>> = {
+  nameTooLong: contactLimits.name,
+  companyTooLong: contactLimits.company,
+  messageTooShort: contactLimits.messageMin,
+  messageTooLong: contactLimits.message,
+};
+
+const fieldClassName = (error?: string) =>
+  `bg-neutralswhite text-neutralsdark h-[45px] rounded ${
+    error ? "border-2 border-red-500" : ""
+  }`;
+
+interface ContactTextFieldProps {
+  field: ContactField;
+  label: MessageKey;
+  value: string;
+  issue?: ContactFormIssue;
+  required?: boolean;
+  type?: string;
+  autoComplete?: string;
+  onChange: (field: ContactField, value: string) => void;
+}
+
+const ContactTextField = ({
+  field,
+  label,
+  value,
+  issue,
+  required = false,
+  type = "text",
+  autoComplete,
+  onChange,
+}: ContactTextFieldProps): JSX.Element => {
+  const { t } = useI18n();
+  const inputId = `contact-${field}`;
+  const errorId = `${inputId}-error`;
+  const error =
+    issue && t(`contact.error.${issue}`, { limit: issueLimits[issue] ?? 0 });
+  return (
+    <div>
+      <label htmlFor={inputId} className="text-sm mb-1 block">
+        {t(label)}
+        {!required && (
+          <span className="text-[#726486]"> {t("contact.optional")}</span>
+        )}
+      </label>
+      <Input
+        id={inputId}
+        name={field}
+        type={type}
+        autoComplete={autoComplete}
+        value={value}
+        required={required}
+        onChange={(e) => onChange(field, e.target.value)}
+        aria-invalid={!!error}
+        aria-describedby={error ? errorId : undefined}
+        className={fieldClassName(error)}
+      />
+      {error && (
+        <p id={errorId} role="alert" className="mt-1 text-xs text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+interface ContactFormProps {
+  adapter: ContactAdapter;
+  roiAttachment: ContactRoiAttachment | null;
+  initialDexSlug: string;
+  onDone: () => void;
+}
+
+export const ContactForm = ({
+  adapter,
+  roiAttachment,
+  initialDexSlug,
+  onDone,
+}: ContactFormProps): JSX.Element => {
+  const { pathname } = useLocation();
+  const { t } = useI18n();
+  const [values, setValues] = useState<ContactFormValues>({
+    ...emptyContactForm,
+    dexSlug: initialDexSlug,
+  });
+  const [errors, setErrors] = useState<ContactFormErrors>({});
+  const [attachRoi, setAttachRoi] = useState(true);
+  const [status, setStatus] = useState<SubmitStatus>({ kind: "idle" });
+
+  const handleChange = (field: ContactField, value: string) => {
+    setValues((current) => ({ ...current, [field]: value }));
+    // Clear a field's error once it's been corrected
+    if (errors[field]) {
+      const fieldError = validateContactForm({ ...values, [field]: value })[
+        field
+      ];
+      setErrors((current) => ({ ...current, [field]: fieldError }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const nextErrors = validateContactForm(values);
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    // Bots that fill the hidden field get a normal-looking success
+    if (isHoneypotFilled(values)) {
+      setStatus({ kind: "sent" });
+      return;
+    }
+
+    const now = Date.now();
+    const retryAfter = contactRetryAfter(browserStorage(), now);
+    if (retryAfter > 0) {
+      setStatus({
+        kind: "error",
+        message: "contact.rateLimited",
+        minutes: Math.ceil(retryAfter / 60000),
+      });
+      return;
+    }
+
+    setStatus({ kind: "sending" });
+    try {
+      await adapter.submit(
+        toContactSubmission(
+          values,
+          attachRoi ? roiAttachment : null,
+          pathname,
+        ),
+      );
+      recordContactSubmission(browserStorage(), now);
+      setStatus({ kind: "sent" });
+    } catch {
+      setStatus({ kind: "error", message: "contact.failed" });
+    }
+  };
+
+  if (status.kind === "sent") {
+    return (
+      <div className="flex flex-col items-start gap-4 p-6" role="status">
+        <p className="font-['Urbanist'] font-semibold text-neutralsdark text-2xl">
+          {values.name.trim()
+            ? t("contact.thanks", { name: values.name.trim() })
+            : t("contact.thanksAnonymous")}
+        </p>
+        <p className="text-sm text-[#313438]">{t("contact.reply")}</p>
+        <Button onClick={onDone}>{t("contact.close")}</Button>
+      </div>
+    );
+  }
+
+  const format = roiAttachment
+    ? createRoiFormatter(getCurrency(roiAttachment.currency))
+    : null;
+
+  return (
+    <form
+      noValidate
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-4 p-6 overflow-y-auto"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ContactTextField
+          field="name"
+          label="contact.name"
+          required
+          autoComplete="name"
+          value={values.name}
+          issue={errors.name}
+          onChange={handleChange}
+        />
+        <ContactTextField
+          field="company"
+          label="contact.company"
+          autoComplete="organization"
+          value={values.company}
+          issue={errors.company}
+          onChange={handleChange}
+        />
+        <ContactTextField
+          field="email"
+          label="contact.email"
+          type="email"
+          required
+          autoComplete="email"
+          value={values.email}
+          issue={errors.email}
+          onChange={handleChange}
+        />
+        <ContactTextField
+          field="phone"
+          label="contact.phone"
+          type="tel"
+          autoComplete="tel"
+          value={values.phone}
+          issue={errors.phone}
+          onChange={handleChange}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="contact-dexSlug" className="text-sm mb-1 block">
+          {t("contact.dex")}
+        </label>
+        <select
+          id="contact-dexSlug"
+          name="dexSlug"
+          value={values.dexSlug}
+          onChange={(e) => handleChange("dexSlug", e.target.value)}
+          className="w-full h-[45px] rounded border border-input bg-neutralswhite px-3 text-neutralsdark"
+        >
+          <option value="">{t("contact.dexUnsure")}</option>
+          {dexes.map((dex) => (
+            <option key={dex.slug} value={dex.slug}>
+              {dex.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="contact-message" className="text-sm mb-1 block">
+          {t("contact.message")}
+        </label>
+        <textarea
+          id="contact-message"
+          name="message"
+          rows={4}
+          required
+          value={values.message}
+          onChange={(e) => handleChange("message", e.target.value)}
+          aria-invalid={!!errors.message}
+          aria-describedby={
+            errors.message ? "contact-message-error" : undefined
+          }
+          className={`w-full rounded-md border border-input bg-neutralswhite px-3 py-2 text-neutralsdark focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring ${
+            errors.message ? "border-2 border-red-500" : ""
+          }`}
+        />
+        {errors.message && (
+          <p
+            id="contact-message-error"
+            role="alert"
+            className="mt-1 text-xs text-red-600"
+          >
+            {t(`contact.error.${errors.message}`, {
+              limit: issueLimits[errors.message] ?? 0,
+            })}
+          </p>
+        )}
+      </div>
+
+      {/* Honeypot, kept out of view and out of the tab order */}
+      <div
+        aria-hidden="true"
+        className="absolute -left-[10000px] h-px w-px overflow-hidden"
+      >
+        <label htmlFor="contact-website">Website</label>
+        <input
+          id="contact-website"
+          name="website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={values.website}
+          onChange={(e) =>
+            setValues((current) => ({ ...current, website: e.target.value }))
+          }
+        />
+      </div>
+
+      {roiAttachment && format && (
+        <label className="flex items-start gap-3 rounded-md bg-[#f8f2ff] p-3 text-sm text-[#313438]">
+          <input
+            type="checkbox"
+            checked={attachRoi}
+            onChange={(e) => setAttachRoi(e.target.checked)}
+            className="mt-1"
+          />
+          <span>
+            {t("contact.attachRoi", {
+              scenario: roiAttachment.scenarioName,
+              total: format.formatMoney(roiAttachment.results.totalBenefit),
+            })}
+          </span>
+        </label>
+      )}
+
+      {status.kind === "error" && (
+        <p role="alert" className="text-sm text-red-600">
+          {t(status.message, {
+            count: status.minutes ?? 0,
+            email: siteContent.contact.email,
+          })}
+        </p>
+      )}
+
+      <Button
+        type="submit"
+        disabled={status.kind === "sending"}
+        className="self-start h-[50px] px-8"
+      >
+        {t(status.kind === "sending" ? "contact.sending" : "contact.send")}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,72 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { matchPath, useLocation } from "react-router-dom";
+import { getDex } from "../../content/dexes";
+import {
+  createContactAdapter,
+  type ContactAdapter,
+  type ContactRoiAttachment,
+} from "../../lib/contact";
+import { siteRoutes } from "../../lib/routes";
+import { useI18n } from "../i18n";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "../ui/dialog";
+import { ContactContext } from "./ContactContext";
+import { ContactForm } from "./ContactForm";
+
+// Owns the Contact Us dialog so any button on any page can open it
+export const ContactProvider = ({
+  adapter,
+  children,
+}: {
+  adapter?: ContactAdapter;
+  children: ReactNode;
+}): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const [roiAttachment, setRoiAttachment] =
+    useState<ContactRoiAttachment | null>(null);
+  const [contactAdapter] = useState(() => adapter ?? createContactAdapter());
+  const { pathname } = useLocation();
+  const { t } = useI18n();
+  // A fresh form each time the dialog opens
+  const [formKey, setFormKey] = useState(0);
+
+  const value = useMemo(
+    () => ({
+      openContact: () => {
+        setFormKey((key) => key + 1);
+        setOpen(true);
+      },
+      setRoiAttachment,
+    }),
+    [],
+  );
+
+  // Visitors on a Dex page are most likely asking about that Dex
+  const currentDex =
+    getDex(matchPath(siteRoutes.dex.path, pathname)?.params.slug)?.slug ?? "";
+
+  return (
+    <ContactContext.Provider value={value}>
+      {children}
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <div className="border-b border-[#c9c9c9] px-6 pt-6 pb-4 pr-12">
+            <DialogTitle>{t("common.contactUs")}</DialogTitle>
+            <DialogDescription>{t("contact.dialogDescription")}</DialogDescription>
+          </div>
+          <ContactForm
+            key={formKey}
+            adapter={contactAdapter}
+            roiAttachment={roiAttachment}
+            initialDexSlug={currentDex}
+            onDone={() => setOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </ContactContext.Provider>
+  );
+};
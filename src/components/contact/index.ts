@@ -0,0 +1,2 @@
+export { ContactProvider } from "./ContactProvider";
+export { useContact } from "./ContactContext";
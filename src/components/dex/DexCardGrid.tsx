@@ -0,0 +1,41 @@
+import { Link } from "react-router-dom";
+import { dexes, localizeDex } from "../../content/dexes";
+import { dexPath } from "../../lib/routes";
+import { useI18n } from "../i18n";
+import { Card, CardContent } from "../ui/card";
+
+export const DexCardGrid = (): JSX.Element => {
+  const { t, locale } = useI18n();
+  const cards = dexes.map((dex) => localizeDex(dex, locale));
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-10">
+      {cards.map((dex) => (
+        <Link
+          key={dex.slug}
+          to={dexPath(dex.slug)}
+          className="group rounded-xl focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+        >
+          <Card className="h-full overflow-hidden rounded-xl transition-shadow group-hover:shadow-lg">
+            <img
+              className="w-full h-[220px] object-cover"
+              alt=""
+              src={dex.problemImage.src}
+            />
+            <CardContent className="flex flex-col gap-4 p-6">
+              <h3 className="font-['Urbanist'] font-semibold text-neutralsdark text-[32px] tracking-[-0.32px]">
+                {dex.name}
+              </h3>
+              <p className="font-body text-[#313438] text-[length:var(--body-font-size)] tracking-[var(--body-letter-spacing)] leading-[var(--body-line-height)]">
+                {dex.tagline}
+              </p>
+              <span className="font-['Inter'] text-base tracking-[-0.30px] text-blue-tintblue-tint group-hover:underline">
+                {t("dex.learnMore")}
+              </span>
+            </CardContent>
+          </Card>
+        </Link>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { DexCardGrid } from "./DexCardGrid";
@@ -0,0 +1,35 @@
+import type { CertificationContent } from "../../content/certifications";
+import {
+  certificationStatus,
+  isoDate,
+  type CertificationStatus,
+} from "../../lib/directory";
+import { cn } from "../../lib/utils";
+import { useI18n } from "../i18n";
+import { Badge } from "../ui/badge";
+
+const statusStyles: Record<CertificationStatus, string> = {
+  valid: "bg-green-100 text-green-800",
+  expired: "bg-red-100 text-red-800",
+  upcoming: "bg-amber-100 text-amber-800",
+};
+
+export const CertificationStatusBadge = ({
+  certification,
+}: {
+  certification: CertificationContent;
+}): JSX.Element => {
+  const { t } = useI18n();
+  const status = certificationStatus(certification, isoDate(new Date()));
+
+  return (
+    <Badge
+      className={cn(
+        "border-transparent shadow-none hover:bg-inherit",
+        statusStyles[status],
+      )}
+    >
+      {t(`directory.status.${status}`)}
+    </Badge>
+  );
+};
@@ -0,0 +1,58 @@
+import { Link } from "react-router-dom";
+import { getDex } from "../../content/dexes";
+import { useI18n } from "../i18n";
+import { Badge } from "../ui/badge";
+import { Card, CardContent } from "../ui/card";
+import { CertificationStatusBadge } from "./CertificationStatusBadge";
+import {
+  directories,
+  isCertification,
+  type DirectoryItem,
+  type DirectoryKind,
+} from "./directories";
+
+export const DirectoryCard = ({
+  kind,
+  item,
+}: {
+  kind: DirectoryKind;
+  item: DirectoryItem;
+}): JSX.Element => {
+  const { t } = useI18n();
+  const dexNames = item.dexes.map((slug) => getDex(slug)?.name ?? slug);
+
+  return (
+    <Link
+      to={directories[kind].entryPath(item.slug)}
+      className="group rounded-xl focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+    >
+      <Card className="h-full overflow-hidden rounded-xl transition-shadow group-hover:shadow-lg">
+        <img
+          className="w-full h-[180px] object-cover bg-[#f1f1f1]"
+          alt=""
+          src={item.logo.src}
+          loading="lazy"
+        />
+        <CardContent className="flex flex-col gap-4 p-6">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">
+              {t(`directory.category.${item.category}`)}
+            </Badge>
+            {isCertification(item) && (
+              <CertificationStatusBadge certification={item} />
+            )}
+          </div>
+          <h3 className="font-['Urbanist'] font-semibold text-neutralsdark text-[28px] tracking-[-0.28px]">
+            {item.name}
+          </h3>
+          <p className="font-['Inter'] text-[#313438] text-base tracking-[-0.30px] leading-[26px] line-clamp-3">
+            {item.description}
+          </p>
+          <p className="font-['Inter'] text-sm text-[#6b6f75]">
+            {dexNames.join(" · ")}
+          </p>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+};
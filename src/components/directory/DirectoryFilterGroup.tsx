@@ -0,0 +1,53 @@
+import { cn } from "../../lib/utils";
+
+interface FilterOption {
+  value: string | null;
+  label: string;
+}
+
+interface DirectoryFilterGroupProps {
+  label: string;
+  options: FilterOption[];
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+// A row of toggle buttons; exactly one is pressed at a time
+export const DirectoryFilterGroup = ({
+  label,
+  options,
+  value,
+  onChange,
+}: DirectoryFilterGroupProps): JSX.Element => (
+  <div
+    role="group"
+    aria-label={label}
+    className="flex flex-wrap items-center gap-3"
+  >
+    <span
+      aria-hidden
+      className="font-['Inter'] text-sm font-semibold text-neutralsdark w-[90px]"
+    >
+      {label}
+    </span>
+    {options.map((option) => {
+      const pressed = option.value === value;
+      return (
+        <button
+          key={option.value ?? "all"}
+          type="button"
+          aria-pressed={pressed}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            "h-9 rounded-full border px-4 font-['Inter'] text-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring",
+            pressed
+              ? "border-neutralsdark bg-neutralsdark text-white"
+              : "border-input bg-background text-neutralsdark hover:bg-accent",
+          )}
+        >
+          {option.label}
+        </button>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,76 @@
+import { Link } from "react-router-dom";
+import { getSiteContent } from "../../content/site";
+import {
+  certificationStatus,
+  filterDirectory,
+  isoDate,
+  noDirectoryFilters,
+  writeDirectoryFilters,
+} from "../../lib/directory";
+import { siteRoutes } from "../../lib/routes";
+import { useI18n } from "../i18n";
+import {
+  directories,
+  isCertification,
+  type DirectoryItem,
+  type DirectoryKind,
+} from "./directories";
+import { LogoGrid } from "./LogoGrid";
+
+// Lapsed or not-yet-issued certificates stay in the directory but aren't
+// advertised in the grids
+const isShowcased = (item: DirectoryItem, today: string) =>
+  !isCertification(item) || certificationStatus(item, today) === "valid";
+
+const ShowcaseSection = ({
+  kind,
+  dex,
+}: {
+  kind: DirectoryKind;
+  dex?: string;
+}): JSX.Element | null => {
+  const { t, locale } = useI18n();
+  const today = isoDate(new Date());
+  const entries = filterDirectory(directories[kind].entries(locale), {
+    ...noDirectoryFilters,
+    dex: dex ?? null,
+  }).filter((item) => isShowcased(item, today));
+
+  if (entries.length === 0) return null;
+
+  const query = writeDirectoryFilters({
+    ...noDirectoryFilters,
+    dex: dex ?? null,
+  }).toString();
+
+  return (
+    <section className="container mx-auto px-4 py-20">
+      <h2 className="font-['Urbanist'] font-medium text-neutralsdark text-[80px] tracking-[-0.80px] leading-[80px] text-center mb-6">
+        {t(`route.${kind}`)}
+      </h2>
+      <p className="font-['Urbanist'] font-semibold text-neutralsdark text-xl tracking-[-0.20px] leading-[34px] text-center max-w-[1100px] mx-auto mb-16">
+        {getSiteContent(locale)[kind].intro}
+      </p>
+
+      <LogoGrid kind={kind} entries={entries} />
+
+      <div className="flex justify-center mt-10">
+        <Link
+          to={{ pathname: siteRoutes[kind].path, search: query }}
+          className="font-['Inter'] text-base tracking-[-0.30px] text-blue-tintblue-tint hover:underline focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring rounded-sm"
+        >
+          {t(`directory.${kind}.viewAll`)}
+        </Link>
+      </div>
+    </section>
+  );
+};
+
+// Partner and certification logos for the homepage, or only those
+// affiliated with one Dex on its page
+export const DirectoryShowcase = ({ dex }: { dex?: string }): JSX.Element => (
+  <>
+    <ShowcaseSection kind="partners" dex={dex} />
+    <ShowcaseSection kind="certifications" dex={dex} />
+  </>
+);
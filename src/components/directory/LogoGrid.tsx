@@ -0,0 +1,55 @@
+import { Link } from "react-router-dom";
+import { cn } from "../../lib/utils";
+import {
+  directories,
+  type DirectoryItem,
+  type DirectoryKind,
+} from "./directories";
+
+const gridStyles: Record<DirectoryKind, { list: string; logo: string }> = {
+  partners: {
+    list: "grid-cols-2 md:grid-cols-3 lg:grid-cols-6",
+    logo: "h-[110px] bg-[#f1f1f1] rounded-md",
+  },
+  certifications: {
+    list: "grid-cols-1 md:grid-cols-2 lg:grid-cols-4 max-w-[1147px] mx-auto",
+    logo: "h-[313px] bg-[#f2f2f2] rounded",
+  },
+};
+
+interface LogoGridProps {
+  kind: DirectoryKind;
+  entries: DirectoryItem[];
+}
+
+// Each logo links to its detail page. The visible name labels the link, so
+// the image itself is decorative here.
+export const LogoGrid = ({ kind, entries }: LogoGridProps): JSX.Element => {
+  const styles = gridStyles[kind];
+
+  return (
+    <ul className={cn("grid gap-10", styles.list)}>
+      {entries.map((entry) => (
+        <li key={entry.slug}>
+          <Link
+            to={directories[kind].entryPath(entry.slug)}
+            className="group flex flex-col gap-3 rounded-md focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          >
+            <img
+              className={cn(
+                "w-full object-cover transition-shadow group-hover:shadow-lg",
+                styles.logo,
+              )}
+              alt=""
+              src={entry.logo.src}
+              loading="lazy"
+            />
+            <span className="font-['Inter'] text-base tracking-[-0.30px] text-neutralsdark text-center group-hover:underline">
+              {entry.name}
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,49 @@
+import {
+  certifications,
+  localizeCertification,
+  type CertificationContent,
+} from "../../content/certifications";
+import {
+  localizePartner,
+  partners,
+  type PartnerContent,
+} from "../../content/partners";
+import {
+  certificationCategories,
+  partnerCategories,
+} from "../../lib/directory";
+import type { Locale } from "../../lib/i18n";
+import { certificationPath, partnerPath } from "../../lib/routes";
+
+export type DirectoryKind = "partners" | "certifications";
+
+export type DirectoryItem = PartnerContent | CertificationContent;
+
+export interface Directory {
+  // In directory order, with their copy in the given language
+  entries: (locale: Locale) => DirectoryItem[];
+  categories: readonly DirectoryItem["category"][];
+  entryPath: (slug: string) => string;
+}
+
+// Partners and certifications share the grid, directory and detail screens
+export const directories: Record<DirectoryKind, Directory> = {
+  partners: {
+    entries: (locale) =>
+      partners.map((partner) => localizePartner(partner, locale)),
+    categories: partnerCategories,
+    entryPath: partnerPath,
+  },
+  certifications: {
+    entries: (locale) =>
+      certifications.map((certification) =>
+        localizeCertification(certification, locale),
+      ),
+    categories: certificationCategories,
+    entryPath: certificationPath,
+  },
+};
+
+export const isCertification = (
+  item: DirectoryItem,
+): item is CertificationContent => "validUntil" in item;
@@ -0,0 +1,11 @@
+export { CertificationStatusBadge } from "./CertificationStatusBadge";
+export { DirectoryCard } from "./DirectoryCard";
+export { DirectoryFilterGroup } from "./DirectoryFilterGroup";
+export { DirectoryShowcase } from "./DirectoryShowcase";
+export { LogoGrid } from "./LogoGrid";
+export {
+  directories,
+  isCertification,
+  type DirectoryItem,
+  type DirectoryKind,
+} from "./directories";
@@ -0,0 +1,32 @@
+import { createContext, Fragment, useContext, type ReactNode } from "react";
+import {
+  createTranslator,
+  defaultLocale,
+  type Locale,
+  type MessageKey,
+  type Translator,
+} from "../../lib/i18n";
+
+export interface I18nContextValue extends Translator {
+  setLocale: (locale: Locale) => void;
+  // Translates a message whose placeholders hold elements, e.g. a link
+  rich: (key: MessageKey, params: Record<string, ReactNode>) => ReactNode;
+}
+
+export const withRich = (
+  translator: Translator,
+  setLocale: I18nContextValue["setLocale"],
+): I18nContextValue => ({
+  ...translator,
+  setLocale,
+  rich: (key, params) =>
+    translator
+      .tParts<ReactNode>(key, params as Record<string, string | number | ReactNode>)
+      .map((part, index) => <Fragment key={index}>{part}</Fragment>),
+});
+
+export const I18nContext = createContext<I18nContextValue>(
+  withRich(createTranslator(defaultLocale), () => {}),
+);
+
+export const useI18n = () => useContext(I18nContext);
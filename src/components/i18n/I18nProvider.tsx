@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { BrowserRouter } from "react-router-dom";
+import {
+  createTranslator,
+  defaultLocale,
+  localeBasename,
+  localizeUrl,
+  parseLocalePath,
+  resolveInitialLocale,
+  storeLocale,
+  type Locale,
+} from "../../lib/i18n";
+import { browserStorage } from "../../lib/storage";
+import { I18nContext, withRich } from "./I18nContext";
+
+const currentUrl = () =>
+  `${window.location.pathname}${window.location.search}${window.location.hash}`;
+
+const showUrlFor = (locale: Locale) => {
+  const url = localizeUrl(window.location, locale);
+  if (url !== currentUrl()) {
+    window.history.replaceState(window.history.state, "", url);
+  }
+};
+
+const startingLocale = () => {
+  const locale = resolveInitialLocale(
+    window.location.pathname,
+    browserStorage(),
+    navigator.languages,
+  );
+  // An unprefixed link opens in the saved language, so show its prefix
+  showUrlFor(locale);
+  return locale;
+};
+
+// Owns the visitor's language and wraps the router, whose basename carries
+// the locale prefix so routes and links never mention it. Switching language
+// remounts the page under the new prefix.
+export const I18nProvider = ({
+  children,
+}: {
+  children: ReactNode;
+}): JSX.Element => {
+  const [locale, setLocaleState] = useState(startingLocale);
+  const translator = useMemo(() => createTranslator(locale), [locale]);
+
+  const value = useMemo(
+    () =>
+      withRich(translator, (next: Locale) => {
+        storeLocale(browserStorage(), next);
+        showUrlFor(next);
+        setLocaleState(next);
+      }),
+    [translator],
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = translator.intl;
+  }, [translator]);
+
+  // Back and Forward can cross into pages visited in another language
+  useEffect(() => {
+    const onPopState = () =>
+      setLocaleState(
+        parseLocalePath(window.location.pathname).locale ?? defaultLocale,
+      );
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  return (
+    <I18nContext.Provider value={value}>
+      <BrowserRouter key={locale} basename={localeBasename(locale)}>
+        {children}
+      </BrowserRouter>
+    </I18nContext.Provider>
+  );
+};
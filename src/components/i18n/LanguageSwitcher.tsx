@@ -0,0 +1,44 @@
+import { Languages } from "lucide-react";
+import { isLocale, locales } from "../../lib/i18n";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "../ui/dropdown";
+import { useI18n } from "./I18nContext";
+
+// Language names are shown in their own language so visitors can find theirs
+export const LanguageSwitcher = (): JSX.Element => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        aria-label={t("common.language")}
+        className="flex h-10 w-10 items-center justify-center rounded-sm text-neutralsdark outline-none hover:bg-accent focus-visible:ring-1 focus-visible:ring-ring"
+      >
+        <Languages className="h-5 w-5" aria-hidden />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-[180px]">
+        <DropdownMenuRadioGroup
+          value={locale}
+          onValueChange={(value) => {
+            if (isLocale(value) && value !== locale) setLocale(value);
+          }}
+        >
+          {locales.map((option) => (
+            <DropdownMenuRadioItem
+              key={option.code}
+              value={option.code}
+              lang={option.intl}
+            >
+              {option.name}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
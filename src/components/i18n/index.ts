@@ -0,0 +1,3 @@
+export { I18nProvider } from "./I18nProvider";
+export { LanguageSwitcher } from "./LanguageSwitcher";
+export { useI18n } from "./I18nContext";
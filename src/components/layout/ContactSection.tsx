@@ -0,0 +1,39 @@
+import { useContact } from "../contact";
+import { useI18n } from "../i18n";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Card, CardContent } from "../ui/card";
+
+export const ContactSection = (): JSX.Element => {
+  const { openContact } = useContact();
+  const { t } = useI18n();
+
+  return (
+    <section className="container mx-auto px-4 py-10">
+      <Card
+        className="w-full h-auto lg:h-[437px] rounded-xl bg-cover bg-center text-white"
+        style={{ backgroundImage: 'url("/image-7.png")' }}
+      >
+        <CardContent className="flex flex-col items-center justify-center h-full p-6 lg:p-10">
+          <Badge className="bg-transparent text-[#d2a0ff] font-sub-title-top text-[length:var(--sub-title-top-font-size)] tracking-[var(--sub-title-top-letter-spacing)] rounded-none">
+            {t("contact.eyebrow")}
+          </Badge>
+          <h2 className="font-['Urbanist'] font-medium text-neutralswhite text-[80px] tracking-[-0.80px] leading-[80px] mt-4 text-center">
+            {t("contact.title")}
+          </h2>
+          <Button
+            className="flex items-center gap-[18px] mt-10"
+            onClick={openContact}
+          >
+            <div className="w-[55px] h-[55px] bg-blue-300 rounded-sm flex items-center justify-center">
+              <img className="w-4 h-4" alt="Arrow" src="/vector-3.svg" />
+            </div>
+            <span className="font-['Inter'] text-neutralswhite text-lg tracking-[-0.36px]">
+              {t("common.contactUs")}
+            </span>
+          </Button>
+        </CardContent>
+      </Card>
+    </section>
+  );
+};
@@ -0,0 +1,121 @@
+import { useEffect, useId, useState } from "react";
+import { ChevronDown, Menu } from "lucide-react";
+import { Link, useLocation } from "react-router-dom";
+import { useI18n } from "../i18n";
+import { Button } from "../ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetTitle,
+  SheetTrigger,
+} from "../ui/sheet";
+import { isItemActive, useNavTree, type NavItem } from "./navigation";
+
+const containsPath = (item: NavItem, pathname: string): boolean =>
+  isItemActive(pathname, item) ||
+  (item.children ?? []).some((child) => containsPath(child, pathname));
+
+const MobileNavSection = ({
+  item,
+  pathname,
+  depth,
+}: {
+  item: NavItem;
+  pathname: string;
+  depth: number;
+}): JSX.Element => {
+  // Sections leading to the current page start expanded
+  const [expanded, setExpanded] = useState(
+    () => depth === 0 && containsPath(item, pathname),
+  );
+  const listId = useId();
+  const { t } = useI18n();
+  const active = isItemActive(pathname, item);
+
+  return (
+    <li>
+      <div className="flex items-center">
+        <Link
+          to={item.to}
+          aria-current={active ? "page" : undefined}
+          className={`flex-1 px-4 py-3 font-inter tracking-[-0.30px] rounded-sm outline-none focus-visible:ring-1 focus-visible:ring-ring ${
+            depth > 0 ? "text-sm" : "text-base"
+          } ${active ? "text-blue-tintblue-tint" : "text-neutralsdark"}`}
+        >
+          {item.title}
+        </Link>
+        {item.children && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-expanded={expanded}
+            aria-controls={listId}
+            aria-label={t(expanded ? "nav.collapse" : "nav.expand", {
+              title: item.title,
+            })}
+            onClick={() => setExpanded(!expanded)}
+          >
+            <ChevronDown
+              className={`h-4 w-4 transition-transform ${
+                expanded ? "rotate-180" : ""
+              }`}
+            />
+          </Button>
+        )}
+      </div>
+      {item.children && (
+        <ul id={listId} hidden={!expanded} className="pl-4">
+          {item.children.map((child) => (
+            <MobileNavSection
+              key={child.to}
+              item={child}
+              pathname={pathname}
+              depth={depth + 1}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const MobileNavDrawer = (): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const { pathname, hash } = useLocation();
+  const { t } = useI18n();
+  const navTree = useNavTree();
+
+  // Any navigation, including to an anchor on the same page, closes the drawer
+  useEffect(() => {
+    setOpen(false);
+  }, [pathname, hash]);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label={t("nav.openMenu")}>
+          <Menu className="h-6 w-6" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent>
+        <div className="border-b border-[#c9c9c9] px-4 py-5 pr-12">
+          <SheetTitle>{t("nav.menuTitle")}</SheetTitle>
+          <SheetDescription>{t("nav.menuDescription")}</SheetDescription>
+        </div>
+        <nav aria-label={t("nav.main")} className="flex-1 overflow-y-auto py-2">
+          <ul>
+            {navTree.map((item) => (
+              <MobileNavSection
+                key={item.to}
+                item={item}
+                pathname={pathname}
+                depth={0}
+              />
+            ))}
+          </ul>
+        </nav>
+      </SheetContent>
+    </Sheet>
+  );
+};
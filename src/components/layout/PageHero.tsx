@@ -0,0 +1,81 @@
+import { Fragment } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { routeBreadcrumbs } from "../../lib/routes";
+import { useI18n } from "../i18n";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbSeparator,
+} from "../ui/breadcrumb";
+
+interface PageHeroProps {
+  title: string;
+  backgroundImage: string;
+}
+
+// Breadcrumbs follow the route hierarchy, ending in this page's title
+export const PageHero = ({
+  title,
+  backgroundImage,
+}: PageHeroProps): JSX.Element => {
+  const { pathname } = useLocation();
+  const { t } = useI18n();
+  const breadcrumbs = routeBreadcrumbs(pathname, title, (id) =>
+    t(`route.${id}`),
+  );
+
+  return (
+    <section
+      className="w-full h-[520px] mt-[100px] bg-cover bg-center"
+      style={{ backgroundImage: `url("${backgroundImage}")` }}
+    >
+      <div className="container mx-auto px-4 pt-[193px]">
+        <div className="flex flex-col items-start gap-3.5">
+          <h1 className="font-['Urbanist'] font-medium text-white text-[85px] tracking-[-0.85px] leading-none">
+            {title}
+          </h1>
+
+          {breadcrumbs.length > 1 && (
+            <Breadcrumb
+              className="text-[#ffffff80]"
+              role="navigation"
+              aria-label={t("common.breadcrumb")}
+            >
+              {breadcrumbs.map((crumb, index) => (
+                <Fragment key={index}>
+                  {index > 0 && (
+                    <BreadcrumbSeparator>
+                      <img
+                        src="/frame-2.svg"
+                        alt=""
+                        className="w-[19px] h-[19px]"
+                      />
+                    </BreadcrumbSeparator>
+                  )}
+                  <BreadcrumbItem>
+                    {crumb.to ? (
+                      <BreadcrumbLink
+                        asChild
+                        className="text-base tracking-[-0.16px]"
+                      >
+                        <Link to={crumb.to}>{crumb.label}</Link>
+                      </BreadcrumbLink>
+                    ) : (
+                      <span
+                        aria-current="page"
+                        className="font-semibold text-white text-base tracking-[-0.16px]"
+                      >
+                        {crumb.label}
+                      </span>
+                    )}
+                  </BreadcrumbItem>
+                </Fragment>
+              ))}
+            </Breadcrumb>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
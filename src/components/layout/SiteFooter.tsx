@@ -0,0 +1,189 @@
+import { NavLink } from "react-router-dom";
+import { getSiteContent, siteContent } from "../../content/site";
+import { siteRoutes, type SiteRouteId } from "../../lib/routes";
+import { useI18n } from "../i18n";
+import { NewsletterSignup } from "../newsletter";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+
+// Data for footer links
+const sitemapLinks: SiteRouteId[] = [
+  "home",
+  "dexes",
+  "partners",
+  "certifications",
+  "services",
+  "about",
+  "support",
+  "resources",
+];
+
+const otherLinks: SiteRouteId[] = ["terms", "privacy"];
+
+export const SiteFooter = (): JSX.Element => {
+  const { t, locale } = useI18n();
+
+  return (
+    <footer className="w-full bg-[#160b25] text-white py-20">
+      <div className="container mx-auto px-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-10">
+          {/* Newsletter Section */}
+          <div className="lg:col-span-2">
+            <Badge className="bg-transparent text-blue-100 font-sub-title-top text-[length:var(--sub-title-top-font-size)] tracking-[var(--sub-title-top-letter-spacing)] rounded-none px-0">
+              {t("footer.newsletterEyebrow")}
+            </Badge>
+            <h2 className="font-['Urbanist'] font-medium text-neutralswhite text-[80px] tracking-[-0.80px] leading-[80px] mt-2 whitespace-pre-line">
+              {t("footer.newsletterTitle")}
+            </h2>
+
+            <NewsletterSignup />
+
+            <div className="flex gap-6 mt-10">
+              <Button
+                variant="outline"
+                className="w-[77px] h-[77px] rounded-full border-white p-0"
+              >
+                <img
+                  className="w-[13px] h-[25px]"
+                  alt="Facebook"
+                  src="/vector-1.svg"
+                />
+              </Button>
+              <Button
+                variant="outline"
+                className="w-[77px] h-[77px] rounded-full border-white p-0"
+              >
+                <img
+                  className="w-6 h-6"
+                  alt="Twitter"
+                  src="/vector-4.svg"
+                />
+              </Button>
+              <Button
+                variant="outline"
+                className="w-[77px] h-[77px] rounded-full border-white p-0"
+              >
+                <img
+                  className="w-[22px] h-[22px]"
+                  alt="Instagram"
+                  src="/vector-7.svg"
+                />
+              </Button>
+            </div>
+          </div>
+
+          {/* Contact Information */}
+          <div>
+            <h3 className="font-['Urbanist'] font-semibold text-neutralswhite text-xl tracking-[-0.20px]">
+              {t("footer.contactInformation")}
+            </h3>
+            <div className="mt-[30px] space-y-6">
+              <div className="flex items-start gap-4">
+                <img
+                  className="w-5 h-5 mt-1"
+                  alt="Location"
+                  src="/frame-4.svg"
+                />
+                <p className="font-['Inter'] text-[#726486] text-base tracking-[-0.30px] leading-6">
+                  {siteContent.contact.address}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <img
+                  className="w-[21px] h-[21px]"
+                  alt="Email"
+                  src="/frame-5.svg"
+                />
+                <p className="font-['Inter'] text-[#726486] text-base tracking-[-0.30px]">
+                  {siteContent.contact.email}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <img
+                  className="w-[21px] h-[21px]"
+                  alt="Phone"
+                  src="/frame.svg"
+                />
+                <p className="font-['Inter'] text-[#726486] text-base tracking-[-0.30px]">
+                  {siteContent.contact.phone}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Sitemap */}
+          <div>
+            <h3 className="font-['Urbanist'] font-semibold text-neutralswhite text-xl tracking-[-0.20px]">
+              {t("footer.sitemap")}
+            </h3>
+            <div className="mt-[30px] space-y-[30px]">
+              {sitemapLinks.map((id) => (
+                <NavLink
+                  key={id}
+                  to={siteRoutes[id].path}
+                  end={id === "home"}
+                  className={({ isActive }) =>
+                    `block font-['Inter'] text-base tracking-[-0.30px] ${
+                      isActive ? "text-blue-tintblue-tint" : "text-[#726486]"
+                    }`
+                  }
+                >
+                  {t(`route.${id}`)}
+                </NavLink>
+              ))}
+            </div>
+          </div>
+
+          {/* Other Links */}
+          <div>
+            <h3 className="font-['Urbanist'] font-semibold text-neutralswhite text-xl tracking-[-0.20px]">
+              {t("footer.otherLinks")}
+            </h3>
+            <div className="mt-[30px] space-y-[30px]">
+              {otherLinks.map((id) => (
+                <NavLink
+                  key={id}
+                  to={siteRoutes[id].path}
+                  className={({ isActive }) =>
+                    `block font-['Inter'] text-base tracking-[-0.30px] ${
+                      isActive ? "text-blue-tintblue-tint" : "text-[#726486]"
+                    }`
+                  }
+                >
+                  {t(`route.${id}`)}
+                </NavLink>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Logo */}
+        <div className="flex justify-end mt-20">
+          <img
+            className="w-[362px] h-auto"
+            alt="Logo on blue black"
+            src="/logo-on-blue-black-clearspace-2.png"
+          />
+        </div>
+
+        {/* Copyright */}
+        <div className="flex flex-col md:flex-row items-center justify-between mt-20 text-[#726486] text-sm gap-4">
+          <p className="font-['Inter'] text-center md:text-left">
+            {getSiteContent(locale).copyright}
+          </p>
+          <div className="flex items-center">
+            <p className="font-['Poppins']">
+              <span>Web Excellence by </span>
+              <span className="font-bold text-white">Verz</span>
+            </p>
+            <img
+              className="w-[15px] h-[13px] ml-0.5"
+              alt="Verz logo"
+              src="/group-2-1.svg"
+            />
+          </div>
+        </div>
+      </div>
+    </footer>
+  );
+};
@@ -0,0 +1,145 @@
+import { ChevronDown } from "lucide-react";
+import { Link, useLocation } from "react-router-dom";
+import { siteRoutes } from "../../lib/routes";
+import { useContact } from "../contact";
+import { LanguageSwitcher, useI18n } from "../i18n";
+import { Button } from "../ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "../ui/dropdown";
+import { MobileNavDrawer } from "./MobileNavDrawer";
+import { SiteSearch } from "./SiteSearch";
+import { isItemActive, useNavTree, type NavItem } from "./navigation";
+
+const NavItemLabel = ({ item }: { item: NavItem }): JSX.Element => {
+  const Icon = item.icon;
+  return (
+    <>
+      {Icon && (
+        <Icon
+          className="h-4 w-4 mt-0.5 shrink-0 text-blue-tintblue-tint"
+          aria-hidden
+        />
+      )}
+      <span className="flex flex-col gap-0.5">
+        <span className="font-medium">{item.title}</span>
+        {item.description && (
+          <span className="text-xs text-[#726486]">{item.description}</span>
+        )}
+      </span>
+    </>
+  );
+};
+
+const DesktopNavItems = ({ items }: { items: NavItem[] }): JSX.Element => (
+  <>
+    {items.map((item) =>
+      item.children ? (
+        <DropdownMenuSub key={item.to}>
+          <DropdownMenuSubTrigger className="items-start gap-3 py-2">
+            <NavItemLabel item={item} />
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-[240px]">
+            <DesktopNavItems items={item.children} />
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      ) : (
+        <DropdownMenuItem
+          key={item.to}
+          asChild
+          className="items-start gap-3 py-2"
+        >
+          <Link to={item.to}>
+            <NavItemLabel item={item} />
+          </Link>
+        </DropdownMenuItem>
+      ),
+    )}
+  </>
+);
+
+export const SiteHeader = (): JSX.Element => {
+  const { openContact } = useContact();
+  const { pathname } = useLocation();
+  const { t } = useI18n();
+  const navTree = useNavTree();
+
+  return (
+    <header className="fixed w-full h-[100px] top-0 left-0 bg-neutralswhite border-b border-[#c9c9c9] z-50">
+      <div className="container mx-auto flex items-center justify-between h-full px-4">
+        <Link to={siteRoutes.home.path}>
+          <img
+            className="h-[71px] w-auto"
+            alt="Logo on white"
+            src="/logo-on-white-clearspace-1.png"
+          />
+        </Link>
+
+        {/* Desktop Navigation */}
+        <nav
+          aria-label={t("nav.main")}
+          className="hidden lg:flex items-center gap-[60px]"
+        >
+          {navTree.map((item) => (
+            <DropdownMenu key={item.to}>
+              <DropdownMenuTrigger className="flex items-center gap-2 rounded-sm outline-none focus-visible:ring-1 focus-visible:ring-ring">
+                <span
+                  className={`font-inter text-base tracking-[-0.30px] ${
+                    isItemActive(pathname, item)
+                      ? "text-blue-tintblue-tint"
+                      : "text-neutralsdark"
+                  }`}
+                >
+                  {item.title}
+                </span>
+                <ChevronDown className="h-4 w-4" aria-hidden />
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-[320px]">
+                <DropdownMenuItem asChild className="items-start gap-3 py-2">
+                  <Link to={item.to}>
+                    <NavItemLabel
+                      item={{
+                        ...item,
+                        title: t("nav.overview", { title: item.title }),
+                      }}
+                    />
+                  </Link>
+                </DropdownMenuItem>
+                {item.children && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DesktopNavItems items={item.children} />
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ))}
+        </nav>
+
+        {/* Mobile Navigation */}
+        <div className="lg:hidden">
+          <MobileNavDrawer />
+        </div>
+
+        <div className="flex items-center gap-6">
+          <SiteSearch />
+          <LanguageSwitcher />
+          <Button
+            variant="outline"
+            className="h-[50px] rounded-sm border-[#1e2215]"
+            onClick={openContact}
+          >
+            {t("common.contactUs")}
+          </Button>
+        </div>
+      </div>
+    </header>
+  );
+};
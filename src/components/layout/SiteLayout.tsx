@@ -0,0 +1,33 @@
+import { useEffect, type ReactNode } from "react";
+import { useLocation } from "react-router-dom";
+import { SiteFooter } from "./SiteFooter";
+import { SiteHeader } from "./SiteHeader";
+
+export const SiteLayout = ({
+  children,
+}: {
+  children: ReactNode;
+}): JSX.Element => {
+  const { pathname, hash } = useLocation();
+
+  // Start each page at the top, as a full page load would, or at the
+  // section named in the hash when a menu links to one
+  useEffect(() => {
+    const target = hash ? document.getElementById(hash.slice(1)) : null;
+    if (target) {
+      target.scrollIntoView({ behavior: "smooth" });
+    } else {
+      window.scrollTo(0, 0);
+    }
+  }, [pathname, hash]);
+
+  return (
+    <div className="bg-white flex flex-row justify-center w-full">
+      <div className="bg-white w-full relative">
+        <SiteHeader />
+        {children}
+        <SiteFooter />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import { useEffect, useId, useMemo, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { dexes } from "../../content/dexes";
+import { dexPath, matchSiteRoute } from "../../lib/routes";
+import {
+  buildSearchIndex,
+  highlightMatches,
+  searchDocuments,
+  searchTerms,
+  type SearchResult,
+} from "../../lib/search";
+import { useI18n } from "../i18n";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+  DialogTrigger,
+} from "../ui/dialog";
+
+const Highlighted = ({
+  text,
+  terms,
+}: {
+  text: string;
+  terms: string[];
+}): JSX.Element => (
+  <>
+    {highlightMatches(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-[#d2a0ff]/40 text-inherit rounded-sm">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ),
+    )}
+  </>
+);
+
+// Command palette over the site's own content, opened from the header icon
+// or with Ctrl/Cmd+K
+export const SiteSearch = (): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { t, locale } = useI18n();
+  const index = useMemo(() => buildSearchIndex(t, locale), [t, locale]);
+  const results = useMemo(() => searchDocuments(index, query), [index, query]);
+  const terms = searchTerms(query);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const listId = useId();
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Keep the highlighted option visible while arrowing through results
+  useEffect(() => {
+    document
+      .getElementById(`${listId}-option-${activeIndex}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [listId, activeIndex]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setQuery("");
+      setActiveIndex(0);
+    }
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setActiveIndex(0);
+  };
+
+  const openResult = (result: SearchResult) => {
+    const { path, anchor } = result.document;
+    // Calculator metrics open on the Dex being viewed, or the first Dex
+    const pathname =
+      path ??
+      (matchSiteRoute(location.pathname) === "dex"
+        ? location.pathname
+        : dexPath(dexes[0].slug));
+    const hash = anchor ? `#${anchor}` : "";
+    handleOpenChange(false);
+    if (pathname === location.pathname && hash === location.hash) {
+      // Same location: the router won't change, so scroll ourselves
+      if (anchor) {
+        document
+          .getElementById(anchor)
+          ?.scrollIntoView({ behavior: "smooth" });
+      }
+      return;
+    }
+    navigate({ pathname, hash });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (results.length === 0) return;
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((activeIndex + 1) % results.length);
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((activeIndex - 1 + results.length) % results.length);
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      openResult(results[activeIndex]);
+    }
+  };
+
+  const optionId = (position: number) => `${listId}-option-${position}`;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="w-[38px] h-[38px] p-0"
+          aria-label={t("search.open")}
+        >
+          <img className="w-[38px] h-[38px]" alt="" src="/frame-1.svg" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <div className="border-b border-[#c9c9c9] px-4 pt-4 pb-3 pr-12">
+          <DialogTitle className="sr-only">{t("search.title")}</DialogTitle>
+          <DialogDescription className="sr-only">
+            {t("search.description")}
+          </DialogDescription>
+          <input
+            type="search"
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls={listId}
+            aria-autocomplete="list"
+            aria-activedescendant={
+              results.length > 0 ? optionId(activeIndex) : undefined
+            }
+            value={query}
+            onChange={(event) => handleQueryChange(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t("search.placeholder")}
+            className="w-full h-10 bg-transparent font-['Inter'] text-base text-neutralsdark outline-none placeholder:text-[#726486]"
+          />
+        </div>
+
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label={t("search.results")}
+          className="overflow-y-auto p-2"
+        >
+          {results.map((result, position) => (
+            <li
+              key={result.document.id}
+              id={optionId(position)}
+              role="option"
+              aria-selected={position === activeIndex}
+              onMouseMove={() => setActiveIndex(position)}
+              onClick={() => openResult(result)}
+              className={`cursor-pointer rounded-sm px-3 py-2 ${
+                position === activeIndex ? "bg-[#f8f2ff]" : ""
+              }`}
+            >
+              <span className="block text-xs uppercase tracking-wide text-[#726486]">
+                {result.document.section}
+              </span>
+              <span className="block font-medium text-neutralsdark">
+                <Highlighted text={result.document.title} terms={terms} />
+              </span>
+              <span className="block text-sm text-[#313438]">
+                <Highlighted text={result.excerpt} terms={terms} />
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {query.trim() !== "" && results.length === 0 && (
+          <p className="px-5 pb-5 text-sm text-[#726486]" role="status">
+            {t("search.noResults", { query: query.trim() })}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,5 @@
+export { ContactSection } from "./ContactSection";
+export { PageHero } from "./PageHero";
+export { SiteFooter } from "./SiteFooter";
+export { SiteHeader } from "./SiteHeader";
+export { SiteLayout } from "./SiteLayout";
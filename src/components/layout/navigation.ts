@@ -0,0 +1,104 @@
+import { useMemo } from "react";
+import {
+  BookOpen,
+  Building2,
+  Calculator,
+  Database,
+  HeartPulse,
+  Landmark,
+  LayoutGrid,
+  LifeBuoy,
+  Lightbulb,
+  Truck,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react";
+import { dexes, localizeDex } from "../../content/dexes";
+import { getInfoPage, type InfoPageId } from "../../content/pages";
+import type { Locale, Translator } from "../../lib/i18n";
+import { dexPath, isPathActive, siteRoutes } from "../../lib/routes";
+import { useI18n } from "../i18n";
+
+// One tree drives both the desktop dropdowns and the mobile menu
+export interface NavItem {
+  title: string;
+  to: string;
+  description?: string;
+  icon?: LucideIcon;
+  children?: NavItem[];
+}
+
+const dexIcons: Record<string, LucideIcon> = {
+  healthdex: HeartPulse,
+  logisticsdex: Truck,
+  financedex: Landmark,
+};
+
+type Translate = Translator["t"];
+
+// Info pages listed in the main menu; the legal pages live in the footer
+type NavInfoPageId = Exclude<InfoPageId, "terms" | "privacy">;
+
+const dexNavItem = (
+  t: Translate,
+  dex: (typeof dexes)[number],
+): NavItem => ({
+  title: dex.name,
+  to: dexPath(dex.slug),
+  description: dex.tagline,
+  icon: dexIcons[dex.slug] ?? Database,
+  children: [
+    { title: t("nav.dex.overview"), to: dexPath(dex.slug), icon: LayoutGrid },
+    {
+      title: t("nav.dex.useCases"),
+      to: `${dexPath(dex.slug)}#use-cases`,
+      icon: Lightbulb,
+    },
+    {
+      title: t("nav.dex.roiCalculator"),
+      to: `${dexPath(dex.slug)}#roi-calculator`,
+      icon: Calculator,
+    },
+  ],
+});
+
+const infoPageNavItem = (
+  t: Translate,
+  locale: Locale,
+  id: NavInfoPageId,
+  icon: LucideIcon,
+): NavItem => ({
+  title: t(`route.${id}`),
+  to: siteRoutes[id].path,
+  description: t(`nav.${id}.description`),
+  icon,
+  children: getInfoPage(id, locale).sections.map((section) => ({
+    title: section.heading,
+    to: `${siteRoutes[id].path}#${section.id}`,
+  })),
+});
+
+// Dex names are brands and stay as written; taglines and info page sections
+// come from the content translations
+export const buildNavTree = (t: Translate, locale: Locale): NavItem[] => [
+  {
+    title: t("route.dexes"),
+    to: siteRoutes.dexes.path,
+    description: t("nav.dexes.description"),
+    icon: Database,
+    children: dexes.map((dex) => dexNavItem(t, localizeDex(dex, locale))),
+  },
+  infoPageNavItem(t, locale, "services", Wrench),
+  infoPageNavItem(t, locale, "about", Building2),
+  infoPageNavItem(t, locale, "support", LifeBuoy),
+  infoPageNavItem(t, locale, "resources", BookOpen),
+];
+
+export const useNavTree = () => {
+  const { t, locale } = useI18n();
+  return useMemo(() => buildNavTree(t, locale), [t, locale]);
+};
+
+// Anchor links never show as active; they share a path with their page
+export const isItemActive = (pathname: string, item: NavItem) =>
+  !item.to.includes("#") && isPathActive(pathname, item.to);
@@ -0,0 +1,140 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { isValidEmail } from "../../lib/email";
+import type { MessageKey } from "../../lib/i18n";
+import type { SubscribeResult } from "../../lib/newsletter";
+import { siteRoutes } from "../../lib/routes";
+import { useI18n } from "../i18n";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { newsletterService } from "./newsletterService";
+
+type SignupStatus =
+  | { kind: "idle" }
+  | { kind: "submitting" }
+  | { kind: "done"; result: SubscribeResult }
+  | { kind: "error"; message: MessageKey };
+
+export const NewsletterSignup = (): JSX.Element => {
+  const [email, setEmail] = useState("");
+  const [consent, setConsent] = useState(false);
+  const [fieldError, setFieldError] = useState<MessageKey | null>(null);
+  const [status, setStatus] = useState<SignupStatus>({ kind: "idle" });
+  const { t, rich } = useI18n();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!isValidEmail(email)) {
+      setFieldError("newsletter.invalidEmail");
+      return;
+    }
+    if (!consent) {
+      setFieldError("newsletter.consentRequired");
+      return;
+    }
+    setFieldError(null);
+    setStatus({ kind: "submitting" });
+    try {
+      const result = await newsletterService.subscribe({ email, consent });
+      setStatus({ kind: "done", result });
+    } catch {
+      setStatus({ kind: "error", message: "newsletter.failed" });
+    }
+  };
+
+  if (status.kind === "done") {
+    const { result } = status;
+    return (
+      <div role="status" className="mt-10 max-w-[520px] text-neutralswhite">
+        {result.status === "already-subscribed" ? (
+          <p>{t("newsletter.alreadySubscribed")}</p>
+        ) : (
+          <>
+            <p>
+              {t(result.resent ? "newsletter.resent" : "newsletter.almostDone")}{" "}
+              {t("newsletter.checkInbox")}
+            </p>
+            {result.previewLink && (
+              <p className="mt-2 text-sm text-[#726486]">
+                {rich("newsletter.preview", {
+                  link: (
+                    <a className="underline" href={result.previewLink}>
+                      {t("newsletter.previewLink")}
+                    </a>
+                  ),
+                })}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form noValidate onSubmit={handleSubmit} className="mt-10 max-w-[520px]">
+      <div className="flex items-center gap-[15px]">
+        <label htmlFor="newsletter-email" className="sr-only">
+          {t("newsletter.emailLabel")}
+        </label>
+        <Input
+          id="newsletter-email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          aria-invalid={!!fieldError && !isValidEmail(email)}
+          aria-describedby={fieldError ? "newsletter-error" : undefined}
+          className="h-[55px] bg-transparent border-white text-neutralswhite placeholder:text-neutralswhite placeholder:opacity-[0.37]"
+          placeholder={t("newsletter.emailPlaceholder")}
+        />
+        <Button
+          type="submit"
+          disabled={status.kind === "submitting"}
+          aria-label={t("newsletter.subscribe")}
+          className="w-[55px] h-[55px] p-0 bg-blue-300 rounded-sm flex items-center justify-center shrink-0"
+        >
+          <img className="w-4 h-4" alt="" src="/vector-3.svg" />
+        </Button>
+      </div>
+
+      <label className="mt-4 flex items-start gap-3 text-sm text-[#726486]">
+        <input
+          type="checkbox"
+          checked={consent}
+          onChange={(e) => setConsent(e.target.checked)}
+          className="mt-1"
+        />
+        <span>
+          {rich("newsletter.consent", {
+            privacyPolicy: (
+              <Link to={siteRoutes.privacy.path} className="underline">
+                {t("route.privacy")}
+              </Link>
+            ),
+          })}
+        </span>
+      </label>
+
+      {fieldError && (
+        <p
+          id="newsletter-error"
+          role="alert"
+          className="mt-2 text-sm text-red-400"
+        >
+          {t(fieldError)}
+        </p>
+      )}
+      {status.kind === "submitting" && (
+        <p role="status" className="mt-2 text-sm text-[#726486]">
+          {t("newsletter.subscribing")}
+        </p>
+      )}
+      {status.kind === "error" && (
+        <p role="alert" className="mt-2 text-sm text-red-400">
+          {t(status.message)}
+        </p>
+      )}
+    </form>
+  );
+};
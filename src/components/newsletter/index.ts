@@ -0,0 +1,2 @@
+export { NewsletterSignup } from "./NewsletterSignup";
+export { newsletterService } from "./newsletterService";
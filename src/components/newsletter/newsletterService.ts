@@ -0,0 +1,6 @@
+import { createLocalNewsletterService } from "../../lib/newsletter";
+import { browserStorage } from "../../lib/storage";
+
+// Swap for a mail provider's implementation of NewsletterService when one is
+// chosen; the UI only depends on the interface
+export const newsletterService = createLocalNewsletterService(browserStorage());
@@ -1,3 +1,4 @@
+import { Slot } from "@radix-ui/react-slot";
 import * as React from "react";
 import { cn } from "../../lib/utils";
 
@@ -27,14 +28,17 @@ BreadcrumbItem.displayName = "BreadcrumbItem";
 
 const BreadcrumbLink = React.forwardRef<
   HTMLAnchorElement,
-  React.AnchorHTMLAttributes<HTMLAnchorElement>
->(({ className, ...props }, ref) => (
-  <a
-    ref={ref}
-    className={cn("hover:text-white transition-colors", className)}
-    {...props}
-  />
-));
+  React.AnchorHTMLAttributes<HTMLAnchorElement> & { asChild?: boolean }
+>(({ asChild = false, className, ...props }, ref) => {
+  const Comp = asChild ? Slot : "a";
+  return (
+    <Comp
+      ref={ref}
+      className={cn("hover:text-white transition-colors", className)}
+      {...props}
+    />
+  );
+});
 BreadcrumbLink.displayName = "BreadcrumbLink";
 
 const BreadcrumbSeparator = React.forwardRef<
@@ -0,0 +1,32 @@
+import type { Locale } from "../../lib/i18n/locales";
+import { createContentLocalizer } from "../translations";
+import type { CertificationContent, CertificationTranslation } from "./types";
+
+export type { CertificationContent, CertificationTranslation } from "./types";
+
+// Every JSON file in this folder is a certification, validated by the
+// content plugin like the Dex files
+const certificationModules = import.meta.glob<CertificationContent>(
+  "./*.json",
+  { eager: true, import: "default" },
+);
+
+export const certifications: CertificationContent[] = Object.values(
+  certificationModules,
+).sort((a, b) => a.order - b.order);
+
+export const getCertification = (slug: string | undefined) =>
+  certifications.find((certification) => certification.slug === slug);
+
+const localize = createContentLocalizer<CertificationContent>(
+  import.meta.glob<CertificationTranslation>("./*/*.json", {
+    eager: true,
+    import: "default",
+  }),
+);
+
+// A certification with its copy in the visitor's language
+export const localizeCertification = (
+  certification: CertificationContent,
+  locale: Locale,
+) => localize(certification, certification.slug, locale);
@@ -0,0 +1,31 @@
+import type { CertificationCategory } from "../../lib/directory/categories";
+import type { DirectoryLogo } from "../partners/types";
+
+// One JSON file per certification in this folder
+export interface CertificationContent {
+  // Must match the file name, e.g. example-security-certification.json
+  slug: string;
+  // Position in the logo grids and the directory
+  order: number;
+  name: string;
+  category: CertificationCategory;
+  logo: DirectoryLogo;
+  description: string;
+  // Body that audited and awarded the certification
+  issuer: string;
+  // Where visitors can read about the standard or verify the certificate
+  url: string;
+  // Slugs of the Dexes the certification covers
+  dexes: string[];
+  // First and last day of the certificate, as YYYY-MM-DD
+  validFrom: string;
+  validUntil: string;
+}
+
+// The copy a translation replaces, e.g. zh/example-security-certification.json
+export interface CertificationTranslation {
+  name: string;
+  description: string;
+  issuer: string;
+  logo: Pick<DirectoryLogo, "alt">;
+}
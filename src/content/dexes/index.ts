@@ -0,0 +1,46 @@
+import { defaultLocale, type Locale } from "../../lib/i18n/locales";
+import { defaultValues, type RoiInputs } from "../../lib/roi";
+import { createContentLocalizer } from "../translations";
+import type { DexContent, DexTranslation } from "./types";
+
+export type {
+  DexContent,
+  DexStatistic,
+  DexTranslation,
+  DexUseCase,
+} from "./types";
+
+// Every JSON file in this folder is a Dex. The content plugin validates each
+// one against DexContent, so a bad file fails the build instead of the page.
+const dexModules = import.meta.glob<DexContent>("./*.json", {
+  eager: true,
+  import: "default",
+});
+
+export const dexes: DexContent[] = Object.values(dexModules).sort(
+  (a, b) => a.order - b.order,
+);
+
+const localize = createContentLocalizer<DexContent>(
+  import.meta.glob<DexTranslation>("./*/*.json", {
+    eager: true,
+    import: "default",
+  }),
+);
+
+// A Dex with its copy in the visitor's language
+export const localizeDex = (dex: DexContent, locale: Locale) =>
+  localize(dex, dex.slug, locale);
+
+export const getDex = (
+  slug: string | undefined,
+  locale: Locale = defaultLocale,
+) => {
+  const dex = dexes.find((entry) => entry.slug === slug);
+  return dex && localizeDex(dex, locale);
+};
+
+export const dexRoiDefaults = (dex: DexContent): RoiInputs => ({
+  ...defaultValues,
+  ...dex.roiDefaults,
+});
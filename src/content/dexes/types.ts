@@ -0,0 +1,44 @@
+import type { RoiInputs } from "../../lib/roi/defaults";
+
+export interface DexUseCase {
+  title: string;
+  description: string;
+  imageSrc: string;
+  imageAlt: string;
+}
+
+export interface DexStatistic {
+  value: string;
+  title: string;
+  description: string;
+}
+
+// Everything a Dex page renders; add one JSON file per Dex in this folder
+export interface DexContent {
+  // Must match the file name, e.g. healthdex.json
+  slug: string;
+  // Position on the Dex index page and in the menus
+  order: number;
+  name: string;
+  // One line used on the Dex index page
+  tagline: string;
+  heroImage: string;
+  problemStatement: string;
+  problemImage: { src: string; alt: string };
+  about: string;
+  useCases: DexUseCase[];
+  statistics: DexStatistic[];
+  // Overrides applied to the calculator's default inputs for this Dex
+  roiDefaults: Partial<RoiInputs>;
+}
+
+// The copy a translation replaces, e.g. zh/healthdex.json. The Dex's name,
+// images and calculator defaults come from the English file.
+export interface DexTranslation {
+  tagline: string;
+  problemStatement: string;
+  problemImage: { alt: string };
+  about: string;
+  useCases: Pick<DexUseCase, "title" | "description" | "imageAlt">[];
+  statistics: DexStatistic[];
+}
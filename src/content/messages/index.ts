@@ -0,0 +1,17 @@
+import type { Locale } from "../../lib/i18n/locales";
+import type { Message } from "../../lib/i18n/messages";
+import en from "./en.json";
+import ms from "./ms.json";
+import ta from "./ta.json";
+import zh from "./zh.json";
+
+// en.json is the source catalogue and defines the valid keys. The content
+// plugin fails the build when another catalogue is missing one of them, has a
+// key en.json doesn't, or drops a placeholder or plural form.
+export type MessageKey = keyof typeof en;
+
+export type Catalogue = Partial<Record<MessageKey, Message>>;
+
+export const catalogues: Record<Locale, Catalogue> = { en, zh, ms, ta };
+
+export const isMessageKey = (key: string): key is MessageKey => key in en;
@@ -0,0 +1,46 @@
+import about from "./about.json";
+import privacy from "./privacy.json";
+import resources from "./resources.json";
+import services from "./services.json";
+import support from "./support.json";
+import terms from "./terms.json";
+import type { Locale } from "../../lib/i18n/locales";
+import { createContentLocalizer } from "../translations";
+import type { InfoPageContent, InfoPageTranslation } from "./types";
+
+export type {
+  InfoPageContent,
+  InfoPageSection,
+  InfoPageTranslation,
+} from "./types";
+
+export type InfoPageId =
+  | "services"
+  | "about"
+  | "support"
+  | "resources"
+  | "terms"
+  | "privacy";
+
+// One JSON file per page, validated by the content plugin at build time
+export const infoPages: Record<InfoPageId, InfoPageContent> = {
+  services,
+  about,
+  support,
+  resources,
+  terms,
+  privacy,
+};
+
+export const infoPageIds = Object.keys(infoPages) as InfoPageId[];
+
+const localize = createContentLocalizer<InfoPageContent>(
+  import.meta.glob<InfoPageTranslation>("./*/*.json", {
+    eager: true,
+    import: "default",
+  }),
+);
+
+// A page's copy in the visitor's language
+export const getInfoPage = (id: InfoPageId, locale: Locale) =>
+  localize(infoPages[id], id, locale);
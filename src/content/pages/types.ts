@@ -0,0 +1,23 @@
+export interface InfoPageSection {
+  // Anchor used by the navigation menus
+  id: string;
+  heading: string;
+  body: string;
+}
+
+export interface InfoPageContent {
+  title: string;
+  // Badge text above the intro heading
+  eyebrow: string;
+  intro: string;
+  sections: InfoPageSection[];
+}
+
+// The copy a translation replaces, e.g. zh/about.json; section anchors come
+// from the English file so links work in every language
+export interface InfoPageTranslation {
+  title: string;
+  eyebrow: string;
+  intro: string;
+  sections: Pick<InfoPageSection, "heading" | "body">[];
+}
@@ -0,0 +1,34 @@
+import type { Locale } from "../../lib/i18n/locales";
+import { createContentLocalizer } from "../translations";
+import type { PartnerContent, PartnerTranslation } from "./types";
+
+export type {
+  DirectoryLogo,
+  PartnerContent,
+  PartnerTranslation,
+} from "./types";
+
+// Every JSON file in this folder is a partner, validated by the content
+// plugin like the Dex files
+const partnerModules = import.meta.glob<PartnerContent>("./*.json", {
+  eager: true,
+  import: "default",
+});
+
+export const partners: PartnerContent[] = Object.values(partnerModules).sort(
+  (a, b) => a.order - b.order,
+);
+
+export const getPartner = (slug: string | undefined) =>
+  partners.find((partner) => partner.slug === slug);
+
+const localize = createContentLocalizer<PartnerContent>(
+  import.meta.glob<PartnerTranslation>("./*/*.json", {
+    eager: true,
+    import: "default",
+  }),
+);
+
+// A partner with its description in the visitor's language
+export const localizePartner = (partner: PartnerContent, locale: Locale) =>
+  localize(partner, partner.slug, locale);
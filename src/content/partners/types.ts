@@ -0,0 +1,30 @@
+import type { PartnerCategory } from "../../lib/directory/categories";
+
+export interface DirectoryLogo {
+  src: string;
+  // Describes the logo itself; grids label their links with the name
+  alt: string;
+}
+
+// One JSON file per partner in this folder
+export interface PartnerContent {
+  // Must match the file name, e.g. straits-health.json
+  slug: string;
+  // Position in the logo grids and the directory
+  order: number;
+  name: string;
+  category: PartnerCategory;
+  logo: DirectoryLogo;
+  description: string;
+  // The partner's own website
+  url: string;
+  // Slugs of the Dexes the partner takes part in
+  dexes: string[];
+}
+
+// The copy a translation replaces, e.g. zh/kallang-cloud.json. Partner names
+// are kept as the partner writes them.
+export interface PartnerTranslation {
+  description: string;
+  logo: Pick<DirectoryLogo, "alt">;
+}
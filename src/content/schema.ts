@@ -0,0 +1,678 @@
+// Runtime checks for the JSON content files. Each schema is typed against
+// the interface it validates, so adding a field to DexContent without adding
+// it here is a type error. The content Vite plugin runs these at build time.
+import {
+  defaultLocale,
+  getLocaleInfo,
+  isLocale,
+  locales,
+} from "../lib/i18n/locales";
+import {
+  isPluralMessage,
+  localePluralCategories,
+  messagePlaceholders,
+  pluralCategories,
+  type Message,
+} from "../lib/i18n/messages";
+import {
+  certificationCategories,
+  partnerCategories,
+} from "../lib/directory/categories";
+import { roiFields } from "../lib/roi/fields";
+import type { RoiInputs } from "../lib/roi/defaults";
+import type {
+  CertificationContent,
+  CertificationTranslation,
+} from "./certifications/types";
+import type { DexContent, DexTranslation } from "./dexes/types";
+import type { InfoPageContent, InfoPageTranslation } from "./pages/types";
+import type {
+  DirectoryLogo,
+  PartnerContent,
+  PartnerTranslation,
+} from "./partners/types";
+import type { SiteContent, SiteTranslation } from "./site/types";
+
+export interface ContentIssue {
+  file: string;
+  path: string;
+  message: string;
+}
+
+export interface ContentContext {
+  file: string;
+  issues: ContentIssue[];
+  // Supplied by the build to check that images exist in public/
+  assetExists?: (publicPath: string) => boolean;
+}
+
+export interface Schema<T> {
+  check: (value: unknown, path: string, ctx: ContentContext) => void;
+  // Never set; ties the schema to the type it describes
+  readonly type?: T;
+}
+
+type SchemaShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const report = (ctx: ContentContext, path: string, message: string) => {
+  ctx.issues.push({ file: ctx.file, path: path || "(root)", message });
+};
+
+const describe = (value: unknown) => {
+  if (value === undefined) return "nothing";
+  if (value === null) return "null";
+  return Array.isArray(value) ? "a list" : typeof value;
+};
+
+interface StringOptions {
+  allowEmpty?: boolean;
+  pattern?: RegExp;
+  patternMessage?: string;
+}
+
+export const string = ({
+  allowEmpty = false,
+  pattern,
+  patternMessage,
+}: StringOptions = {}): Schema<string> => ({
+  check: (value, path, ctx) => {
+    if (typeof value !== "string") {
+      report(ctx, path, `expected text, got ${describe(value)}`);
+    } else if (!allowEmpty && value.trim() === "") {
+      report(ctx, path, "must not be empty");
+    } else if (pattern && !pattern.test(value)) {
+      report(ctx, path, patternMessage ?? `must match ${pattern}`);
+    }
+  },
+});
+
+export const number = ({
+  min = -Infinity,
+  max = Infinity,
+  integer = false,
+}: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> => ({
+  check: (value, path, ctx) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      report(ctx, path, `expected a number, got ${describe(value)}`);
+    } else if (integer && !Number.isInteger(value)) {
+      report(ctx, path, "must be a whole number");
+    } else if (value < min || value > max) {
+      report(ctx, path, `must be between ${min} and ${max}`);
+    }
+  },
+});
+
+// A site-relative image path such as "/image-1.png"
+export const imagePath = (): Schema<string> => ({
+  check: (value, path, ctx) => {
+    string({
+      pattern: /^\/[\w./-]+\.(png|jpe?g|svg|webp|gif)$/i,
+      patternMessage: 'must be an image path in public/, like "/image.png"',
+    }).check(value, path, ctx);
+    if (
+      typeof value === "string" &&
+      ctx.assetExists &&
+      !ctx.assetExists(value)
+    ) {
+      report(ctx, path, `image ${value} does not exist in public/`);
+    }
+  },
+});
+
+// A link to another site, e.g. a partner's homepage
+export const url = (): Schema<string> =>
+  string({
+    pattern: /^https?:\/\/[^\s/]+\.[^\s]+$/,
+    patternMessage: 'must be a full web address, like "https://example.com"',
+  });
+
+// A calendar date written YYYY-MM-DD
+export const isoDate = (): Schema<string> => ({
+  check: (value, path, ctx) => {
+    const before = ctx.issues.length;
+    string({
+      pattern: /^\d{4}-\d{2}-\d{2}$/,
+      patternMessage: 'must be a date written YYYY-MM-DD, like "2025-01-31"',
+    }).check(value, path, ctx);
+    if (ctx.issues.length > before || typeof value !== "string") return;
+    const parsed = new Date(`${value}T00:00:00Z`);
+    if (
+      Number.isNaN(parsed.getTime()) ||
+      parsed.toISOString().slice(0, 10) !== value
+    ) {
+      report(ctx, path, `${value} is not a real date`);
+    }
+  },
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  check: (value, path, ctx) => {
+    if (
+      typeof value !== "string" ||
+      !(values as readonly string[]).includes(value)
+    ) {
+      report(
+        ctx,
+        path,
+        `must be one of ${values.map((entry) => `"${entry}"`).join(", ")}`,
+      );
+    }
+  },
+});
+
+export const optional = <T,>(schema: Schema<T>): Schema<T | undefined> => ({
+  check: (value, path, ctx) => {
+    if (value !== undefined) schema.check(value, path, ctx);
+  },
+});
+
+export const array = <T,>(
+  item: Schema<T>,
+  { min = 0 }: { min?: number } = {},
+): Schema<T[]> => ({
+  check: (value, path, ctx) => {
+    if (!Array.isArray(value)) {
+      report(ctx, path, `expected a list, got ${describe(value)}`);
+      return;
+    }
+    if (value.length < min) {
+      report(ctx, path, `needs at least ${min} item(s)`);
+    }
+    value.forEach((entry, index) =>
+      item.check(entry, `${path}[${index}]`, ctx),
+    );
+  },
+});
+
+// Unknown keys are reported too, which catches misspelt field names
+export const object = <T,>(shape: SchemaShape<T>): Schema<T> => ({
+  check: (value, path, ctx) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      report(ctx, path, `expected an object, got ${describe(value)}`);
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    const known = shape as Record<string, Schema<unknown>>;
+    for (const [key, schema] of Object.entries(known)) {
+      schema.check(record[key], path ? `${path}.${key}` : key, ctx);
+    }
+    for (const key of Object.keys(record)) {
+      if (!(key in known)) {
+        report(ctx, path ? `${path}.${key}` : key, "is not a known field");
+      }
+    }
+  },
+});
+
+// Overrides are held to the same bounds as the calculator's inputs
+const roiDefaultsSchema = object<Partial<RoiInputs>>(
+  Object.fromEntries(
+    roiFields.map((field) => [
+      field.key,
+      optional(
+        number({ min: field.min, max: field.max, integer: field.integer }),
+      ),
+    ]),
+  ) as SchemaShape<Partial<RoiInputs>>,
+);
+
+const slug = () =>
+  string({
+    pattern: /^[a-z0-9-]+$/,
+    patternMessage: "must use lowercase letters, digits and dashes only",
+  });
+
+export const dexContentSchema = object<DexContent>({
+  slug: slug(),
+  order: number({ min: 1, integer: true }),
+  name: string(),
+  tagline: string(),
+  heroImage: imagePath(),
+  problemStatement: string(),
+  problemImage: object({ src: imagePath(), alt: string() }),
+  about: string(),
+  useCases: array(
+    object({
+      title: string(),
+      description: string(),
+      imageSrc: imagePath(),
+      imageAlt: string(),
+    }),
+    { min: 1 },
+  ),
+  statistics: array(
+    object({ value: string(), title: string(), description: string() }),
+  ),
+  roiDefaults: roiDefaultsSchema,
+});
+
+export const infoPageSchema = object<InfoPageContent>({
+  title: string(),
+  eyebrow: string(),
+  intro: string(),
+  sections: array(
+    object({
+      id: string({
+        pattern: /^[a-z0-9-]+$/,
+        patternMessage: "must use lowercase letters, digits and dashes only",
+      }),
+      heading: string(),
+      body: string(),
+    }),
+    { min: 1 },
+  ),
+});
+
+const directoryLogoSchema = object<DirectoryLogo>({
+  src: imagePath(),
+  alt: string(),
+});
+
+// Dex slugs are checked against the Dex files in validateContent
+export const partnerContentSchema = object<PartnerContent>({
+  slug: slug(),
+  order: number({ min: 1, integer: true }),
+  name: string(),
+  category: oneOf(partnerCategories),
+  logo: directoryLogoSchema,
+  description: string(),
+  url: url(),
+  dexes: array(slug(), { min: 1 }),
+});
+
+export const certificationContentSchema = object<CertificationContent>({
+  slug: slug(),
+  order: number({ min: 1, integer: true }),
+  name: string(),
+  category: oneOf(certificationCategories),
+  logo: directoryLogoSchema,
+  description: string(),
+  issuer: string(),
+  url: url(),
+  dexes: array(slug(), { min: 1 }),
+  validFrom: isoDate(),
+  validUntil: isoDate(),
+});
+
+export const siteContentSchema = object<SiteContent>({
+  contact: object({ address: string(), email: string(), phone: string() }),
+  partners: object({ intro: string() }),
+  certifications: object({ intro: string() }),
+  copyright: string(),
+});
+
+// Translations carry only the copy; lists must line up with the English
+// file, which validateContent checks
+export const dexTranslationSchema = object<DexTranslation>({
+  tagline: string(),
+  problemStatement: string(),
+  problemImage: object({ alt: string() }),
+  about: string(),
+  useCases: array(
+    object({ title: string(), description: string(), imageAlt: string() }),
+  ),
+  statistics: array(
+    object({ value: string(), title: string(), description: string() }),
+  ),
+});
+
+export const infoPageTranslationSchema = object<InfoPageTranslation>({
+  title: string(),
+  eyebrow: string(),
+  intro: string(),
+  sections: array(object({ heading: string(), body: string() })),
+});
+
+export const partnerTranslationSchema = object<PartnerTranslation>({
+  description: string(),
+  logo: object({ alt: string() }),
+});
+
+export const certificationTranslationSchema =
+  object<CertificationTranslation>({
+    name: string(),
+    description: string(),
+    issuer: string(),
+    logo: object({ alt: string() }),
+  });
+
+export const siteTranslationSchema = object<SiteTranslation>({
+  partners: object({ intro: string() }),
+  certifications: object({ intro: string() }),
+  copyright: string(),
+});
+
+// Folders whose files are translated, one subfolder per locale, e.g.
+// dexes/zh/healthdex.json beside dexes/healthdex.json
+const translationSchemas: Record<string, Schema<unknown>> = {
+  dexes: dexTranslationSchema,
+  pages: infoPageTranslationSchema,
+  partners: partnerTranslationSchema,
+  certifications: certificationTranslationSchema,
+  site: siteTranslationSchema,
+};
+
+const translationFile = /^([a-z]+)\/([^/]+)\/([^/]+\.json)$/;
+const sourceFile = /^([a-z]+)\/([^/]+\.json)$/;
+
+// A message is text or plural forms keyed by CLDR category
+const message = (): Schema<Message> => ({
+  check: (value, path, ctx) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      string().check(value, path, ctx);
+      return;
+    }
+    for (const [category, form] of Object.entries(value)) {
+      if (!(pluralCategories as string[]).includes(category)) {
+        report(ctx, `${path}.${category}`, "is not a plural category");
+      } else {
+        string().check(form, `${path}.${category}`, ctx);
+      }
+    }
+    if (!("other" in value)) {
+      report(ctx, `${path}.other`, "is required in every plural message");
+    }
+  },
+});
+
+// Keys are free-form here; checkCatalogue compares them with en.json
+export const catalogueSchema: Schema<Record<string, Message>> = {
+  check: (value, path, ctx) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      report(ctx, path, `expected an object, got ${describe(value)}`);
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      message().check(entry, key, ctx);
+    }
+  },
+};
+
+const sameNames = (a: Set<string>, b: Set<string>) =>
+  a.size === b.size && [...a].every((name) => b.has(name));
+
+// A translation must cover exactly the source keys, keep every placeholder
+// and supply each plural form its language uses
+const checkCatalogue = (
+  file: string,
+  locale: string,
+  catalogue: Record<string, unknown>,
+  source: Record<string, unknown>,
+  issues: ContentIssue[],
+) => {
+  const categories = isLocale(locale)
+    ? localePluralCategories(getLocaleInfo(locale).intl)
+    : [];
+
+  for (const [key, original] of Object.entries(source)) {
+    const translated = catalogue[key];
+    if (translated === undefined) {
+      issues.push({ file, path: key, message: "is missing a translation" });
+      continue;
+    }
+    if (
+      !(typeof original === "string" || isPluralMessage(original)) ||
+      !(typeof translated === "string" || isPluralMessage(translated))
+    ) {
+      continue;
+    }
+    if (isPluralMessage(original) !== isPluralMessage(translated)) {
+      issues.push({
+        file,
+        path: key,
+        message: isPluralMessage(original)
+          ? "must have plural forms, like en.json"
+          : "must be plain text, like en.json",
+      });
+      continue;
+    }
+    if (isPluralMessage(translated)) {
+      const missing = categories.filter(
+        (category) => !(category in translated),
+      );
+      if (missing.length > 0) {
+        issues.push({
+          file,
+          path: key,
+          message: `needs the plural form(s) ${missing.join(", ")}`,
+        });
+      }
+    }
+    const expected = messagePlaceholders(original);
+    const actual = messagePlaceholders(translated);
+    if (!sameNames(expected, actual)) {
+      const list = (names: Set<string>) =>
+        [...names].map((name) => `{${name}}`).join(", ") || "none";
+      issues.push({
+        file,
+        path: key,
+        message: `uses placeholders ${list(actual)} but en.json uses ${list(expected)}`,
+      });
+    }
+  }
+
+  for (const key of Object.keys(catalogue)) {
+    if (!(key in source)) {
+      issues.push({ file, path: key, message: "is not a key in en.json" });
+    }
+  }
+};
+
+export interface ContentFile {
+  // Relative to src/content, with forward slashes, e.g. "dexes/healthdex.json"
+  file: string;
+  data: unknown;
+}
+
+const schemaFor = (file: string): Schema<unknown> | null => {
+  if (/^dexes\/[^/]+\.json$/.test(file)) return dexContentSchema;
+  if (/^pages\/[^/]+\.json$/.test(file)) return infoPageSchema;
+  if (/^partners\/[^/]+\.json$/.test(file)) return partnerContentSchema;
+  if (/^certifications\/[^/]+\.json$/.test(file)) {
+    return certificationContentSchema;
+  }
+  if (file === "site/site.json") return siteContentSchema;
+  if (/^messages\/[^/]+\.json$/.test(file)) return catalogueSchema;
+  const translation = translationFile.exec(file);
+  if (translation && translation[1] in translationSchemas) {
+    return translationSchemas[translation[1]];
+  }
+  return null;
+};
+
+// Folders holding one entry per file, named after the entry's slug
+const collectionSchemas: Schema<unknown>[] = [
+  dexContentSchema,
+  partnerContentSchema,
+  certificationContentSchema,
+];
+
+interface CollectionEntry {
+  file: string;
+  // Unchecked file data; the fields the cross-file rules read
+  entry: Partial<
+    Record<"slug" | "order" | "dexes" | "validFrom" | "validUntil", unknown>
+  >;
+}
+
+// Each slug must match its file name and each order be used once per folder
+const checkCollection = (
+  entries: CollectionEntry[],
+  issues: ContentIssue[],
+) => {
+  const seenOrders = new Map<unknown, string>();
+  for (const { file, entry } of entries) {
+    const expected = file.slice(file.indexOf("/") + 1, -".json".length);
+    if (entry.slug !== undefined && entry.slug !== expected) {
+      issues.push({
+        file,
+        path: "slug",
+        message: `must match the file name ("${expected}")`,
+      });
+    }
+    const clash = seenOrders.get(entry.order);
+    if (clash) {
+      issues.push({
+        file,
+        path: "order",
+        message: `${entry.order} is already used by ${clash}`,
+      });
+    }
+    seenOrders.set(entry.order, file);
+  }
+};
+
+// Each translation must sit in a locale folder beside its English file and
+// keep the English lists' lengths, and each English file needs a
+// translation for every other locale
+const checkTranslations = (files: ContentFile[], issues: ContentIssue[]) => {
+  const byFile = new Map(files.map(({ file, data }) => [file, data]));
+
+  for (const { file, data } of files) {
+    const match = translationFile.exec(file);
+    if (!match || !(match[1] in translationSchemas)) continue;
+    const [, folder, locale, name] = match;
+    if (!isLocale(locale) || locale === defaultLocale) {
+      issues.push({
+        file,
+        path: "(root)",
+        message: `"${locale}" is not a translated locale listed in src/lib/i18n/locales.ts`,
+      });
+      continue;
+    }
+    const englishFile = `${folder}/${name}`;
+    const english = byFile.get(englishFile);
+    if (english === undefined) {
+      issues.push({
+        file,
+        path: "(root)",
+        message: `has no English file (${englishFile})`,
+      });
+      continue;
+    }
+    if (typeof english !== "object" || !english) continue;
+    if (typeof data !== "object" || !data) continue;
+    const translated = data as Record<string, unknown>;
+    for (const [key, value] of Object.entries(english)) {
+      const items = translated[key];
+      if (
+        Array.isArray(value) &&
+        Array.isArray(items) &&
+        items.length !== value.length
+      ) {
+        issues.push({
+          file,
+          path: key,
+          message: `must have ${value.length} item(s), like ${englishFile}`,
+        });
+      }
+    }
+  }
+
+  for (const { file } of files) {
+    const match = sourceFile.exec(file);
+    if (!match || !(match[1] in translationSchemas)) continue;
+    const [, folder, name] = match;
+    for (const { code } of locales) {
+      if (code === defaultLocale || byFile.has(`${folder}/${code}/${name}`)) {
+        continue;
+      }
+      issues.push({
+        file,
+        path: "(root)",
+        message: `has no ${code} translation (${folder}/${code}/${name})`,
+      });
+    }
+  }
+};
+
+// Checks every file on its own, then the rules that span files
+export const validateContent = (
+  files: ContentFile[],
+  assetExists?: (publicPath: string) => boolean,
+): ContentIssue[] => {
+  const issues: ContentIssue[] = [];
+  const collections = new Map<Schema<unknown>, CollectionEntry[]>(
+    collectionSchemas.map((schema) => [schema, []]),
+  );
+  const catalogueFiles: { file: string; data: Record<string, unknown> }[] = [];
+
+  for (const { file, data } of files) {
+    const ctx: ContentContext = { file, issues, assetExists };
+    const schema = schemaFor(file);
+    if (!schema) {
+      report(ctx, "", "is not a recognised content file");
+      continue;
+    }
+    schema.check(data, "", ctx);
+    const collection = collections.get(schema);
+    if (collection && typeof data === "object" && data) {
+      collection.push({ file, entry: data as CollectionEntry["entry"] });
+    }
+    if (schema === catalogueSchema && typeof data === "object" && data) {
+      catalogueFiles.push({ file, data: data as Record<string, unknown> });
+    }
+  }
+
+  for (const entries of collections.values()) checkCollection(entries, issues);
+
+  // Partners and certifications may only name Dexes that have a file
+  const dexSlugs = new Set(
+    collections.get(dexContentSchema)?.map(({ entry }) => entry.slug),
+  );
+  for (const schema of [partnerContentSchema, certificationContentSchema]) {
+    for (const { file, entry } of collections.get(schema) ?? []) {
+      if (!Array.isArray(entry.dexes)) continue;
+      entry.dexes.forEach((dex, index) => {
+        if (typeof dex === "string" && !dexSlugs.has(dex)) {
+          issues.push({
+            file,
+            path: `dexes[${index}]`,
+            message: `"${dex}" is not a Dex in src/content/dexes`,
+          });
+        }
+      });
+    }
+  }
+
+  const certificationFiles = collections.get(certificationContentSchema) ?? [];
+  for (const { file, entry } of certificationFiles) {
+    const { validFrom, validUntil } = entry;
+    if (
+      typeof validFrom === "string" &&
+      typeof validUntil === "string" &&
+      validUntil < validFrom
+    ) {
+      issues.push({
+        file,
+        path: "validUntil",
+        message: `must not be before validFrom (${validFrom})`,
+      });
+    }
+  }
+
+  checkTranslations(files, issues);
+
+  const source = catalogueFiles.find(({ file }) => file === "messages/en.json");
+  for (const { file, data } of catalogueFiles) {
+    const locale = file.slice("messages/".length, -".json".length);
+    if (!isLocale(locale)) {
+      issues.push({
+        file,
+        path: "(root)",
+        message: `"${locale}" is not a locale listed in src/lib/i18n/locales.ts`,
+      });
+    } else if (source && file !== source.file) {
+      checkCatalogue(file, locale, data, source.data, issues);
+    }
+  }
+
+  return issues;
+};
+
+export const formatContentIssues = (issues: ContentIssue[]) =>
+  issues
+    .map(
+      (issue) => `  src/content/${issue.file} › ${issue.path}: ${issue.message}`,
+    )
+    .join("\n");
@@ -0,0 +1,25 @@
+import type { Locale } from "../../lib/i18n/locales";
+import { createContentLocalizer } from "../translations";
+import site from "./site.json";
+import type { SiteContent, SiteTranslation } from "./types";
+
+export type {
+  SiteContactDetails,
+  SiteContent,
+  SiteDirectoryIntro,
+  SiteTranslation,
+} from "./types";
+
+// Validated against SiteContent by the content plugin at build time
+export const siteContent: SiteContent = site;
+
+const localize = createContentLocalizer<SiteContent>(
+  import.meta.glob<SiteTranslation>("./*/site.json", {
+    eager: true,
+    import: "default",
+  }),
+);
+
+// The shared copy in the visitor's language
+export const getSiteContent = (locale: Locale) =>
+  localize(siteContent, "site", locale);
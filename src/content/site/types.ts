@@ -0,0 +1,26 @@
+export interface SiteContactDetails {
+  address: string;
+  email: string;
+  phone: string;
+}
+
+// Lead-in text above a logo grid; the entries live in their own folders
+export interface SiteDirectoryIntro {
+  intro: string;
+}
+
+// Copy shared by every page: footer details and the logo grid intros
+export interface SiteContent {
+  contact: SiteContactDetails;
+  partners: SiteDirectoryIntro;
+  certifications: SiteDirectoryIntro;
+  copyright: string;
+}
+
+// The copy a translation replaces, in zh/site.json and so on. Contact
+// details are the same in every language.
+export interface SiteTranslation {
+  partners: SiteDirectoryIntro;
+  certifications: SiteDirectoryIntro;
+  copyright: string;
+}
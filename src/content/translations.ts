@@ -0,0 +1,44 @@
+import { defaultLocale, type Locale } from "../lib/i18n/locales";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Text in the translation replaces the English; lists are matched by
+// position, and fields a translation doesn't carry keep their English value
+const mergeTranslation = (source: unknown, translation: unknown): unknown => {
+  if (typeof translation === "string") return translation;
+  if (Array.isArray(source) && Array.isArray(translation)) {
+    return source.map((item, index) =>
+      mergeTranslation(item, translation[index]),
+    );
+  }
+  if (isRecord(source) && isRecord(translation)) {
+    return Object.fromEntries(
+      Object.entries(source).map(([key, value]) => [
+        key,
+        mergeTranslation(value, translation[key]),
+      ]),
+    );
+  }
+  return source;
+};
+
+/**
+ * Applies the translations kept beside a folder's English files, one folder
+ * per locale, e.g. zh/healthdex.json for healthdex.json. `modules` is that
+ * folder's import.meta.glob of "./*\/*.json". The build requires every
+ * translation, so English only shows for a file added while the dev server
+ * is running.
+ */
+export const createContentLocalizer = <T>(modules: Record<string, unknown>) => {
+  const localized = new Map<string, T>();
+  return (source: T, name: string, locale: Locale): T => {
+    const key = `./${locale}/${name}.json`;
+    if (locale === defaultLocale || !(key in modules)) return source;
+    // Merged once, so pages and memoised values see the same object
+    if (!localized.has(key)) {
+      localized.set(key, mergeTranslation(source, modules[key]) as T);
+    }
+    return localized.get(key) as T;
+  };
+};
@@ -1,9 +1,61 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
+import { Route, Routes } from "react-router-dom";
+import { ContactProvider } from "./components/contact";
+import { I18nProvider } from "./components/i18n";
+import { infoPageIds } from "./content/pages";
+import { siteRoutes } from "./lib/routes";
+import { DexSgDexIndex } from "./screens/DexSgDexIndex";
+import { DexSgDirectory } from "./screens/DexSgDirectory";
+import { DexSgDirectoryEntry } from "./screens/DexSgDirectoryEntry";
+import { DexSgHome } from "./screens/DexSgHome";
+import { DexSgInfoPage } from "./screens/DexSgInfoPage";
+import { DexSgNewsletter } from "./screens/DexSgNewsletter";
+import { DexSgNotFound } from "./screens/DexSgNotFound";
 import { DexSgOurDexes } from "./screens/DexSgOurDexes";
 
 createRoot(document.getElementById("app") as HTMLElement).render(
   <StrictMode>
-    <DexSgOurDexes />
+    <I18nProvider>
+      <ContactProvider>
+        <Routes>
+          <Route path={siteRoutes.home.path} element={<DexSgHome />} />
+          <Route path={siteRoutes.dexes.path} element={<DexSgDexIndex />} />
+          <Route path={siteRoutes.dex.path} element={<DexSgOurDexes />} />
+          <Route
+            path={siteRoutes.partners.path}
+            element={<DexSgDirectory kind="partners" />}
+          />
+          <Route
+            path={siteRoutes.partner.path}
+            element={<DexSgDirectoryEntry kind="partners" />}
+          />
+          <Route
+            path={siteRoutes.certifications.path}
+            element={<DexSgDirectory kind="certifications" />}
+          />
+          <Route
+            path={siteRoutes.certification.path}
+            element={<DexSgDirectoryEntry kind="certifications" />}
+          />
+          {infoPageIds.map((id) => (
+            <Route
+              key={id}
+              path={siteRoutes[id].path}
+              element={<DexSgInfoPage page={id} />}
+            />
+          ))}
+          <Route
+            path={siteRoutes.newsletterConfirm.path}
+            element={<DexSgNewsletter action="confirm" />}
+          />
+          <Route
+            path={siteRoutes.newsletterUnsubscribe.path}
+            element={<DexSgNewsletter action="unsubscribe" />}
+          />
+          <Route path="*" element={<DexSgNotFound />} />
+        </Routes>
+      </ContactProvider>
+    </I18nProvider>
   </StrictMode>,
 );
@@ -0,0 +1,54 @@
+export interface LinearScale {
+  // Position in the range for a value in the domain
+  (value: number): number;
+  domain: [number, number];
+  ticks: number[];
+}
+
+// 1, 2, 2.5 or 5 times a power of ten, whichever is closest above `step`
+const niceStep = (step: number) => {
+  const power = Math.pow(10, Math.floor(Math.log10(step)));
+  const fraction = step / power;
+  const nice = [1, 2, 2.5, 5].find((limit) => fraction <= limit) ?? 10;
+  return nice * power;
+};
+
+/**
+ * Maps values onto a pixel range. The domain is widened to whole tick
+ * steps, so axes start and end on a labelled value, and always includes
+ * zero so bars and baselines have somewhere to stand.
+ */
+export const linearScale = (
+  values: number[],
+  range: [number, number],
+  tickCount = 5,
+): LinearScale => {
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const step = niceStep((max - min || 1) / tickCount);
+  const low = Math.floor(min / step) * step;
+  const high = Math.ceil(max / step) * step;
+  // All zeros still get one step of axis
+  const domain: [number, number] = [low, high > low ? high : low + step];
+
+  const ticks: number[] = [];
+  for (let tick = domain[0]; tick <= domain[1] + step / 2; tick += step) {
+    // Rounded so repeated addition doesn't print 0.30000000000000004
+    ticks.push(Math.round(tick / step) * step);
+  }
+
+  const [from, to] = range;
+  const scale = (value: number) =>
+    from + ((value - domain[0]) / (domain[1] - domain[0])) * (to - from);
+  return Object.assign(scale, { domain, ticks });
+};
+
+// Evenly spaced positions for `count` categories, e.g. bars or years
+export const bandScale = (count: number, range: [number, number]) => {
+  const [from, to] = range;
+  const band = (to - from) / Math.max(count, 1);
+  return {
+    band,
+    center: (index: number) => from + band * (index + 0.5),
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from "vitest";
+import { createContactAdapter } from "./adapter";
+import { emptyContactForm, toContactSubmission } from "./form";
+
+const submission = toContactSubmission(
+  {
+    ...emptyContactForm,
+    name: "Ana",
+    email: "ana@example.com",
+    message: "Tell me more about HealthDex.",
+  },
+  null,
+  "/contact",
+  new Date("2026-01-01T00:00:00.000Z"),
+);
+
+describe("createContactAdapter", () => {
+  it("posts to the configured endpoint", async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response(null, { status: 202 }));
+    const adapter = createContactAdapter({
+      VITE_CONTACT_ENDPOINT: "https://leads.example.com/contact",
+      DEV: false,
+    });
+    await adapter.submit(submission);
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "https://leads.example.com/contact",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify(submission),
+      }),
+    );
+    fetchSpy.mockRestore();
+  });
+
+  it("refuses submissions in a production build without an endpoint", async () => {
+    const adapter = createContactAdapter({ DEV: false });
+    await expect(adapter.submit(submission)).rejects.toThrow(
+      "VITE_CONTACT_ENDPOINT",
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import type { ContactSubmission } from "./form";
+
+// Where leads are sent. Swap the implementation without touching the form.
+export interface ContactAdapter {
+  submit: (submission: ContactSubmission) => Promise<void>;
+}
+
+export const createHttpContactAdapter = (
+  endpoint: string,
+  fetchImpl: typeof fetch = fetch,
+): ContactAdapter => ({
+  submit: async (submission) => {
+    const response = await fetchImpl(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(submission),
+    });
+    if (!response.ok) {
+      throw new Error(`Contact endpoint responded with ${response.status}`);
+    }
+  },
+});
+
+// Used by builds with nowhere to send leads, so every submission shows the
+// form's failure message instead of appearing to succeed
+export const createUnconfiguredContactAdapter = (): ContactAdapter => ({
+  submit: async () => {
+    throw new Error("VITE_CONTACT_ENDPOINT is not set for this build");
+  },
+});
+
+// VITE_CONTACT_ENDPOINT wins; in dev the Vite server answers /api/contact
+// with a mock. A production build without an endpoint refuses submissions.
+export const createContactAdapter = (
+  env: { VITE_CONTACT_ENDPOINT?: string; DEV: boolean } = import.meta.env,
+): ContactAdapter => {
+  if (env.VITE_CONTACT_ENDPOINT) {
+    return createHttpContactAdapter(env.VITE_CONTACT_ENDPOINT);
+  }
+  return env.DEV
+    ? createHttpContactAdapter("/api/contact")
+    : createUnconfiguredContactAdapter();
+};
@@ -0,0 +1,119 @@
+import { isValidEmail } from "../email";
+import type { RoiBenefits, RoiInputs } from "../roi";
+
+export interface ContactFormValues {
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+  // Empty when the visitor isn't sure yet
+  dexSlug: string;
+  message: string;
+  // Honeypot: hidden from people, so anything typed here came from a bot
+  website: string;
+}
+
+export type ContactField = Exclude<keyof ContactFormValues, "website">;
+// Why a field was rejected; the form shows the message in the visitor's language
+export type ContactFormIssue =
+  | "nameRequired"
+  | "nameTooLong"
+  | "companyTooLong"
+  | "emailRequired"
+  | "emailInvalid"
+  | "phoneInvalid"
+  | "messageRequired"
+  | "messageTooShort"
+  | "messageTooLong";
+
+export type ContactFormErrors = Partial<Record<ContactField, ContactFormIssue>>;
+
+export const emptyContactForm: ContactFormValues = {
+  name: "",
+  company: "",
+  email: "",
+  phone: "",
+  dexSlug: "",
+  message: "",
+  website: "",
+};
+
+// Calculator state attached to a lead. Amounts are in SGD like the engine;
+// currency records what the visitor was viewing.
+export interface ContactRoiAttachment {
+  scenarioName: string;
+  planId: string;
+  currency: string;
+  inputs: RoiInputs;
+  results: RoiBenefits;
+}
+
+export interface ContactSubmission {
+  name: string;
+  company: string | null;
+  email: string;
+  phone: string | null;
+  dexSlug: string | null;
+  message: string;
+  roi: ContactRoiAttachment | null;
+  page: string;
+  submittedAt: string;
+}
+
+const phonePattern = /^\+?[0-9][0-9 ()-]{5,19}$/;
+
+export const contactLimits = {
+  name: 100,
+  company: 100,
+  messageMin: 10,
+  message: 2000,
+};
+
+export const validateContactForm = (
+  values: ContactFormValues,
+): ContactFormErrors => {
+  const errors: ContactFormErrors = {};
+  const name = values.name.trim();
+  const email = values.email.trim();
+  const phone = values.phone.trim();
+  const message = values.message.trim();
+
+  if (!name) errors.name = "nameRequired";
+  else if (name.length > contactLimits.name) errors.name = "nameTooLong";
+
+  if (values.company.trim().length > contactLimits.company)
+    errors.company = "companyTooLong";
+
+  if (!email) errors.email = "emailRequired";
+  else if (!isValidEmail(email)) errors.email = "emailInvalid";
+
+  if (phone && !phonePattern.test(phone)) errors.phone = "phoneInvalid";
+
+  if (!message) errors.message = "messageRequired";
+  else if (message.length < contactLimits.messageMin)
+    errors.message = "messageTooShort";
+  else if (message.length > contactLimits.message)
+    errors.message = "messageTooLong";
+
+  return errors;
+};
+
+export const isHoneypotFilled = (values: ContactFormValues) =>
+  values.website.trim() !== "";
+
+export const toContactSubmission = (
+  values: ContactFormValues,
+  roi: ContactRoiAttachment | null,
+  page: string,
+  now = new Date(),
+): ContactSubmission => ({
+  name: values.name.trim(),
+  company: values.company.trim() || null,
+  email: values.email.trim(),
+  phone: values.phone.trim() || null,
+  dexSlug: values.dexSlug || null,
+  message: values.message.trim(),
+  roi,
+  page,
+  submittedAt: now.toISOString(),
+});
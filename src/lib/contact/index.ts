@@ -0,0 +1,3 @@
+export * from "./form";
+export * from "./rateLimit";
+export * from "./adapter";
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import {
+  contactRateLimit,
+  contactRetryAfter,
+  recordContactSubmission,
+} from "./rateLimit";
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe("contact rate limit", () => {
+  it("waits out the window after the maximum submissions", () => {
+    const storage = memoryStorage();
+    for (let i = 0; i < contactRateLimit.maxSubmissions; i++) {
+      recordContactSubmission(storage, 1_000 + i);
+    }
+    expect(contactRetryAfter(storage, 2_000)).toBe(
+      1_000 + contactRateLimit.windowMs - 2_000,
+    );
+    expect(
+      contactRetryAfter(storage, 1_000 + contactRateLimit.windowMs + 10),
+    ).toBe(0);
+  });
+
+  it("doesn't throw when storage refuses writes", () => {
+    const storage = {
+      getItem: () => null,
+      setItem: () => {
+        throw new DOMException("Blocked", "SecurityError");
+      },
+    };
+    expect(() => recordContactSubmission(storage, 1_000)).not.toThrow();
+    expect(contactRetryAfter(storage, 1_000)).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+type RateLimitStorage = Pick<Storage, "getItem" | "setItem">;
+
+export const contactRateLimit = {
+  storageKey: "dexsg.contact.submissions",
+  maxSubmissions: 3,
+  windowMs: 10 * 60 * 1000,
+};
+
+const recentSubmissions = (storage: RateLimitStorage, now: number) => {
+  try {
+    const stored: unknown = JSON.parse(
+      storage.getItem(contactRateLimit.storageKey) ?? "[]",
+    );
+    return Array.isArray(stored)
+      ? stored.filter(
+          (time): time is number =>
+            typeof time === "number" && now - time < contactRateLimit.windowMs,
+        )
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+// Milliseconds until another submission is allowed; 0 when it is
+export const contactRetryAfter = (storage: RateLimitStorage, now: number) => {
+  const recent = recentSubmissions(storage, now);
+  if (recent.length < contactRateLimit.maxSubmissions) return 0;
+  return Math.min(...recent) + contactRateLimit.windowMs - now;
+};
+
+export const recordContactSubmission = (
+  storage: RateLimitStorage,
+  now: number,
+) => {
+  try {
+    storage.setItem(
+      contactRateLimit.storageKey,
+      JSON.stringify([...recentSubmissions(storage, now), now]),
+    );
+  } catch {
+    // The lead was already sent; a full or blocked storage only loses the limit
+  }
+};
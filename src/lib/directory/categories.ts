@@ -0,0 +1,17 @@
+// Category ids are stable; their labels come from the message catalogues
+export const partnerCategories = [
+  "industry",
+  "technology",
+  "government",
+  "research",
+] as const;
+
+export type PartnerCategory = (typeof partnerCategories)[number];
+
+export const certificationCategories = [
+  "security",
+  "privacy",
+  "compliance",
+] as const;
+
+export type CertificationCategory = (typeof certificationCategories)[number];
@@ -0,0 +1,58 @@
+// The fields the directory pages filter on, shared by partners and
+// certifications
+export interface DirectoryEntry {
+  slug: string;
+  name: string;
+  category: string;
+  dexes: string[];
+}
+
+export interface DirectoryFilters {
+  category: string | null;
+  dex: string | null;
+}
+
+export const noDirectoryFilters: DirectoryFilters = {
+  category: null,
+  dex: null,
+};
+
+export const hasDirectoryFilters = (filters: DirectoryFilters) =>
+  filters.category !== null || filters.dex !== null;
+
+export const filterDirectory = <T extends DirectoryEntry>(
+  entries: T[],
+  { category, dex }: DirectoryFilters,
+): T[] =>
+  entries.filter(
+    (entry) =>
+      (category === null || entry.category === category) &&
+      (dex === null || entry.dexes.includes(dex)),
+  );
+
+// Filters live in the query string so a filtered directory can be linked to.
+// Values that aren't a known category or Dex are ignored rather than
+// showing an empty list.
+export const readDirectoryFilters = (
+  params: URLSearchParams,
+  categories: readonly string[],
+  dexSlugs: readonly string[],
+): DirectoryFilters => {
+  const pick = (name: string, allowed: readonly string[]) => {
+    const value = params.get(name);
+    return value !== null && allowed.includes(value) ? value : null;
+  };
+  return {
+    category: pick("category", categories),
+    dex: pick("dex", dexSlugs),
+  };
+};
+
+export const writeDirectoryFilters = (
+  filters: DirectoryFilters,
+): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.category !== null) params.set("category", filters.category);
+  if (filters.dex !== null) params.set("dex", filters.dex);
+  return params;
+};
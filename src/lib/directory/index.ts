@@ -0,0 +1,3 @@
+export * from "./categories";
+export * from "./filters";
+export * from "./validity";
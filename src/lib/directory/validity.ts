@@ -0,0 +1,24 @@
+export type CertificationStatus = "upcoming" | "valid" | "expired";
+
+// A date as YYYY-MM-DD in the local time zone, e.g. for today
+export const isoDate = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+// Dates are YYYY-MM-DD, so they compare correctly as text. A certificate is
+// valid on both its first and last day.
+export const certificationStatus = (
+  validity: { validFrom: string; validUntil: string },
+  today: string,
+): CertificationStatus => {
+  if (today < validity.validFrom) return "upcoming";
+  if (today > validity.validUntil) return "expired";
+  return "valid";
+};
+
+// Midnight UTC on a YYYY-MM-DD date; format it with timeZone "UTC" so the
+// day shown doesn't shift with the visitor's clock
+export const parseIsoDate = (value: string) => new Date(`${value}T00:00:00Z`);
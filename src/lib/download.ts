@@ -0,0 +1,12 @@
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers; wait
+  // as long as FileSaver.js does before freeing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 40_000);
+}
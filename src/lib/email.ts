@@ -0,0 +1,6 @@
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidEmail = (value: string) => emailPattern.test(value.trim());
+
+// Addresses are compared case-insensitively
+export const normalizeEmail = (value: string) => value.trim().toLowerCase();
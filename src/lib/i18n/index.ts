@@ -0,0 +1,4 @@
+export * from "./locales";
+export * from "./messages";
+export * from "./localeUrl";
+export * from "./translator";
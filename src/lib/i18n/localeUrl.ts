@@ -0,0 +1,62 @@
+import { defaultLocale, isLocale, matchLocale, type Locale } from "./locales";
+
+type PreferenceStorage = Pick<Storage, "getItem" | "setItem">;
+
+export const localeStorageKey = "dexsg.locale";
+
+// Every locale but the default lives under its own prefix, e.g. /zh/dexes.
+// The router uses this as its basename, so routes and links stay unprefixed.
+export const localeBasename = (locale: Locale) =>
+  locale === defaultLocale ? "/" : `/${locale}`;
+
+// Splits "/zh/dexes" into the locale and the path the router sees
+export const parseLocalePath = (pathname: string) => {
+  const [, first, ...rest] = pathname.split("/");
+  if (isLocale(first) && first !== defaultLocale) {
+    return { locale: first, path: `/${rest.join("/")}` };
+  }
+  return { locale: null, path: pathname };
+};
+
+// The same page in another locale, keeping the query string and anchor
+export const localizeUrl = (
+  { pathname, search, hash }: Pick<Location, "pathname" | "search" | "hash">,
+  locale: Locale,
+) => {
+  const { path } = parseLocalePath(pathname);
+  const prefix = locale === defaultLocale ? "" : `/${locale}`;
+  const localized = prefix && path === "/" ? prefix : `${prefix}${path}`;
+  return `${localized}${search}${hash}`;
+};
+
+export const readStoredLocale = (storage: PreferenceStorage) => {
+  try {
+    const stored = storage.getItem(localeStorageKey);
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeLocale = (storage: PreferenceStorage, locale: Locale) => {
+  try {
+    storage.setItem(localeStorageKey, locale);
+  } catch {
+    // Private browsing can refuse writes; the URL still carries the locale
+  }
+};
+
+/**
+ * Locale for a page load. A prefix in the URL wins, so shared links open in
+ * the language they were copied in; otherwise the visitor's saved choice,
+ * then their browser languages.
+ */
+export const resolveInitialLocale = (
+  pathname: string,
+  storage: PreferenceStorage,
+  languages: readonly string[],
+): Locale =>
+  parseLocalePath(pathname).locale ??
+  readStoredLocale(storage) ??
+  matchLocale(languages) ??
+  defaultLocale;
@@ -0,0 +1,37 @@
+// Languages the site is published in. English is the source language: its
+// catalogue defines every message key and its URLs carry no prefix.
+
+export type Locale = "en" | "zh" | "ms" | "ta";
+
+export interface LocaleInfo {
+  code: Locale;
+  // Shown in the language switcher, in the language itself
+  name: string;
+  // BCP 47 tag used for Intl formatting and <html lang>
+  intl: string;
+}
+
+export const locales: LocaleInfo[] = [
+  { code: "en", name: "English", intl: "en-SG" },
+  { code: "zh", name: "简体中文", intl: "zh-Hans-SG" },
+  { code: "ms", name: "Bahasa Melayu", intl: "ms-SG" },
+  { code: "ta", name: "தமிழ்", intl: "ta-SG" },
+];
+
+export const defaultLocale: Locale = "en";
+
+export const isLocale = (value: string | null | undefined): value is Locale =>
+  locales.some((locale) => locale.code === value);
+
+export const getLocaleInfo = (code: Locale) =>
+  locales.find((locale) => locale.code === code) ?? locales[0];
+
+// First supported language in the browser's preference list, matched on the
+// primary subtag so "zh-CN" and "ms-MY" resolve too
+export const matchLocale = (languages: readonly string[]) => {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split("-")[0];
+    if (isLocale(primary)) return primary;
+  }
+  return null;
+};
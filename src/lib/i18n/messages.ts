@@ -0,0 +1,81 @@
+// A message is either plain text or a set of plural forms chosen by the
+// `count` parameter using the locale's CLDR plural rules. Placeholders are
+// written {name}; numeric values are formatted for the locale.
+
+export type PluralCategory = "zero" | "one" | "two" | "few" | "many" | "other";
+
+export type PluralMessage = Partial<Record<PluralCategory, string>> & {
+  other: string;
+};
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+export const pluralCategories: PluralCategory[] = [
+  "zero",
+  "one",
+  "two",
+  "few",
+  "many",
+  "other",
+];
+
+const placeholderPattern = /\{(\w+)\}/g;
+
+export const isPluralMessage = (message: unknown): message is PluralMessage =>
+  typeof message === "object" &&
+  message !== null &&
+  typeof (message as { other?: unknown }).other === "string";
+
+// Names of every placeholder used in any form of the message
+export const messagePlaceholders = (message: Message) => {
+  const forms = typeof message === "string" ? [message] : Object.values(message);
+  const names = new Set<string>();
+  for (const form of forms) {
+    for (const match of form.matchAll(placeholderPattern)) names.add(match[1]);
+  }
+  return names;
+};
+
+// Plural forms the locale distinguishes, e.g. ["one", "other"] for English
+export const localePluralCategories = (intl: string) =>
+  new Intl.PluralRules(intl).resolvedOptions()
+    .pluralCategories as PluralCategory[];
+
+const selectForm = (message: Message, count: unknown, intl: string) =>
+  typeof message === "string"
+    ? message
+    : (message[
+        new Intl.PluralRules(intl).select(Number(count ?? 0)) as PluralCategory
+      ] ?? message.other);
+
+// Splits the message at its placeholders so they can be filled with values
+// that aren't text, such as a link element
+export const formatMessageParts = <T,>(
+  message: Message,
+  params: Record<string, string | number | T>,
+  intl: string,
+): (string | T)[] => {
+  const numbers = new Intl.NumberFormat(intl, { maximumFractionDigits: 2 });
+  const template = selectForm(message, params.count, intl);
+  const parts: (string | T)[] = [];
+  let last = 0;
+
+  for (const match of template.matchAll(placeholderPattern)) {
+    const value = params[match[1]];
+    // Unknown placeholders are left in place so the gap is visible
+    if (value === undefined) continue;
+    parts.push(template.slice(last, match.index));
+    parts.push(typeof value === "number" ? numbers.format(value) : value);
+    last = match.index + match[0].length;
+  }
+  parts.push(template.slice(last));
+  return parts.filter((part) => part !== "");
+};
+
+export const formatMessage = (
+  message: Message,
+  params: MessageParams,
+  intl: string,
+) => formatMessageParts(message, params, intl).join("");
@@ -0,0 +1,47 @@
+import {
+  catalogues,
+  isMessageKey,
+  type MessageKey,
+} from "../../content/messages";
+import { defaultLocale, getLocaleInfo, type Locale } from "./locales";
+import {
+  formatMessage,
+  formatMessageParts,
+  type MessageParams,
+} from "./messages";
+
+export { isMessageKey, type MessageKey };
+
+export interface Translator {
+  locale: Locale;
+  // BCP 47 tag for Intl APIs, e.g. "zh-Hans-SG"
+  intl: string;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // Like t, but placeholders may be filled with non-text values
+  tParts: <T>(
+    key: MessageKey,
+    params: Record<string, string | number | T>,
+  ) => (string | T)[];
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: Date, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+export const createTranslator = (locale: Locale): Translator => {
+  const { intl } = getLocaleInfo(locale);
+  const catalogue = catalogues[locale];
+  const fallback = catalogues[defaultLocale];
+  // The build rejects catalogues with missing keys; falling back to English
+  // only covers a catalogue edited while the dev server is running
+  const lookup = (key: MessageKey) => catalogue[key] ?? fallback[key] ?? key;
+
+  return {
+    locale,
+    intl,
+    t: (key, params = {}) => formatMessage(lookup(key), params, intl),
+    tParts: (key, params) => formatMessageParts(lookup(key), params, intl),
+    formatNumber: (value, options) =>
+      new Intl.NumberFormat(intl, options).format(value),
+    formatDate: (value, options) =>
+      new Intl.DateTimeFormat(intl, options).format(value),
+  };
+};
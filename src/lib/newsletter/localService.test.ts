@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLocalNewsletterService } from "./localService";
+
+const storageKey = "dexsg.newsletter.subscribers";
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+// Hands out token-1, token-2, … so tests can tell the links apart
+const sequentialTokens = () => {
+  let next = 0;
+  return () => `token-${++next}`;
+};
+
+const tokenFrom = (link: string | undefined) =>
+  new URL(link ?? "").searchParams.get("token") ?? "";
+
+describe("createLocalNewsletterService", () => {
+  beforeEach(() => {
+    vi.stubGlobal("window", { location: { origin: "https://dex.example" } });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("issues separate confirm and unsubscribe tokens", async () => {
+    const service = createLocalNewsletterService(
+      memoryStorage(),
+      sequentialTokens(),
+    );
+    const subscribed = await service.subscribe({
+      email: "ana@example.com",
+      consent: true,
+    });
+    if (subscribed.status !== "pending") throw new Error("not pending");
+    const confirmToken = tokenFrom(subscribed.previewLink);
+
+    expect(await service.unsubscribe(confirmToken)).toEqual({
+      status: "invalid",
+    });
+    const confirmed = await service.confirm(confirmToken);
+    expect(confirmed).toEqual({
+      status: "confirmed",
+      email: "ana@example.com",
+      unsubscribeToken: "token-2",
+    });
+    expect(await service.confirm("token-2")).toEqual({ status: "invalid" });
+    expect(await service.unsubscribe("token-2")).toEqual({
+      status: "unsubscribed",
+      email: "ana@example.com",
+    });
+  });
+
+  it("gives records saved with a single token their own unsubscribe token", async () => {
+    const storage = memoryStorage();
+    storage.setItem(
+      storageKey,
+      JSON.stringify([
+        {
+          email: "ana@example.com",
+          status: "subscribed",
+          token: "old",
+          consentAt: "2026-01-01T00:00:00.000Z",
+          confirmedAt: "2026-01-01T00:05:00.000Z",
+        },
+      ]),
+    );
+    const service = createLocalNewsletterService(storage, sequentialTokens());
+
+    expect(await service.confirm("old")).toEqual({
+      status: "already-confirmed",
+      email: "ana@example.com",
+      unsubscribeToken: "token-1",
+    });
+    expect(await service.unsubscribe("old")).toEqual({ status: "invalid" });
+    expect(await service.unsubscribe("token-1")).toEqual({
+      status: "unsubscribed",
+      email: "ana@example.com",
+    });
+  });
+});
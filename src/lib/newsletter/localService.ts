@@ -0,0 +1,143 @@
+import { isValidEmail, normalizeEmail } from "../email";
+import { siteRoutes } from "../routes";
+import type { NewsletterService } from "./service";
+
+type NewsletterStorage = Pick<Storage, "getItem" | "setItem">;
+
+interface SubscriberRecord {
+  email: string;
+  status: "pending" | "subscribed" | "unsubscribed";
+  // Separate tokens, so a forwarded confirmation email can't unsubscribe
+  confirmToken: string;
+  unsubscribeToken: string;
+  consentAt: string;
+  confirmedAt: string | null;
+}
+
+// Records saved before the two links had their own tokens
+type LegacySubscriberRecord = Omit<
+  SubscriberRecord,
+  "confirmToken" | "unsubscribeToken"
+> & { token: string };
+
+const storageKey = "dexsg.newsletter.subscribers";
+
+export const newsletterLink = (
+  action: "confirm" | "unsubscribe",
+  token: string,
+  origin = window.location.origin,
+) => {
+  const { path } =
+    action === "confirm"
+      ? siteRoutes.newsletterConfirm
+      : siteRoutes.newsletterUnsubscribe;
+  return `${origin}${path}?token=${encodeURIComponent(token)}`;
+};
+
+// Keeps subscribers in browser storage so the whole flow can be tried
+// without a mail provider; the confirmation link is handed back to the page
+// as previewLink instead of being emailed
+export const createLocalNewsletterService = (
+  storage: NewsletterStorage,
+  createToken: () => string = () => crypto.randomUUID(),
+  now: () => Date = () => new Date(),
+): NewsletterService => {
+  const save = (records: SubscriberRecord[]) =>
+    storage.setItem(storageKey, JSON.stringify(records));
+  const load = (): SubscriberRecord[] => {
+    let stored: unknown;
+    try {
+      stored = JSON.parse(storage.getItem(storageKey) ?? "[]");
+    } catch {
+      return [];
+    }
+    if (!Array.isArray(stored)) return [];
+    const records = stored as (SubscriberRecord | LegacySubscriberRecord)[];
+    if (!records.some((record) => "token" in record)) {
+      return records as SubscriberRecord[];
+    }
+    // The old token keeps confirming; unsubscribing gets a new one, saved
+    // straight away so the link handed out stays valid
+    const migrated = records.map((record): SubscriberRecord => {
+      if (!("token" in record)) return record;
+      const { token, ...rest } = record;
+      return { ...rest, confirmToken: token, unsubscribeToken: createToken() };
+    });
+    save(migrated);
+    return migrated;
+  };
+
+  return {
+    subscribe: async ({ email, consent }) => {
+      if (!consent) throw new Error("Consent is required to subscribe");
+      if (!isValidEmail(email)) throw new Error("Invalid email address");
+
+      const records = load();
+      const address = normalizeEmail(email);
+      const existing = records.find((record) => record.email === address);
+      if (existing?.status === "subscribed") {
+        return { status: "already-subscribed" };
+      }
+
+      const record: SubscriberRecord =
+        existing?.status === "pending"
+          ? { ...existing, consentAt: now().toISOString() }
+          : {
+              email: address,
+              status: "pending",
+              confirmToken: createToken(),
+              unsubscribeToken: createToken(),
+              consentAt: now().toISOString(),
+              confirmedAt: null,
+            };
+      save([...records.filter((r) => r.email !== address), record]);
+
+      return {
+        status: "pending",
+        resent: existing?.status === "pending",
+        previewLink: newsletterLink("confirm", record.confirmToken),
+      };
+    },
+
+    confirm: async (token) => {
+      const records = load();
+      const record = records.find((r) => r.confirmToken === token);
+      if (!record || record.status === "unsubscribed") {
+        return { status: "invalid" };
+      }
+      if (record.status === "subscribed") {
+        return {
+          status: "already-confirmed",
+          email: record.email,
+          unsubscribeToken: record.unsubscribeToken,
+        };
+      }
+      save(
+        records.map((r) =>
+          r === record
+            ? { ...r, status: "subscribed", confirmedAt: now().toISOString() }
+            : r,
+        ),
+      );
+      return {
+        status: "confirmed",
+        email: record.email,
+        unsubscribeToken: record.unsubscribeToken,
+      };
+    },
+
+    unsubscribe: async (token) => {
+      const records = load();
+      const record = records.find((r) => r.unsubscribeToken === token);
+      if (!record || record.status === "unsubscribed") {
+        return { status: "invalid" };
+      }
+      save(
+        records.map((r) =>
+          r === record ? { ...r, status: "unsubscribed" } : r,
+        ),
+      );
+      return { status: "unsubscribed", email: record.email };
+    },
+  };
+};
@@ -0,0 +1,28 @@
+export interface SubscribeRequest {
+  email: string;
+  // Must be true; kept on the record as evidence of opt-in consent
+  consent: boolean;
+}
+
+export type SubscribeResult =
+  // A confirmation email is on its way. previewLink is only set by the local
+  // mock, which has no mailbox to send to.
+  | { status: "pending"; resent: boolean; previewLink?: string }
+  | { status: "already-subscribed" };
+
+export type ConfirmResult =
+  | { status: "confirmed"; email: string; unsubscribeToken: string }
+  | { status: "already-confirmed"; email: string; unsubscribeToken: string }
+  | { status: "invalid" };
+
+export type UnsubscribeResult =
+  | { status: "unsubscribed"; email: string }
+  | { status: "invalid" };
+
+// Double opt-in: subscribe sends a confirmation link, and the address only
+// receives newsletters once that link's token is confirmed
+export interface NewsletterService {
+  subscribe: (request: SubscribeRequest) => Promise<SubscribeResult>;
+  confirm: (token: string) => Promise<ConfirmResult>;
+  unsubscribe: (token: string) => Promise<UnsubscribeResult>;
+}
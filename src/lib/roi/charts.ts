@@ -0,0 +1,144 @@
+import type { RoiResult } from "./engine";
+import type { RoiProjection } from "./projection";
+
+export type CostLineItem =
+  | "build"
+  | "maintenance"
+  | "apiFees"
+  | "subscription"
+  | "transactionFees"
+  | "compliance"
+  | "errorCost";
+
+// Every line item in stacking order
+export const costLineItems: CostLineItem[] = [
+  "build",
+  "maintenance",
+  "apiFees",
+  "subscription",
+  "transactionFees",
+  "compliance",
+  "errorCost",
+];
+
+export interface CostSegment {
+  item: CostLineItem;
+  value: number;
+  // Where the segment starts, i.e. the sum of the segments below it
+  from: number;
+}
+
+export interface CostStack {
+  side: "legacy" | "platform";
+  total: number;
+  segments: CostSegment[];
+}
+
+const stack = (
+  side: CostStack["side"],
+  values: Partial<Record<CostLineItem, number>>,
+  total: number,
+): CostStack => {
+  let from = 0;
+  // Only the items this side has; the other side's are left out, not zero
+  const segments = costLineItems
+    .filter((item) => values[item] !== undefined)
+    .map((item) => {
+      const value = values[item] ?? 0;
+      const segment = { item, value, from };
+      from += value;
+      return segment;
+    });
+  return { side, total, segments };
+};
+
+// Annual legacy and platform costs side by side, by line item
+export const costBreakdownStacks = (result: RoiResult): CostStack[] => {
+  const { legacy, platform } = result;
+  return [
+    stack(
+      "legacy",
+      {
+        build: legacy.build,
+        maintenance: legacy.maintenance,
+        apiFees: legacy.apiFees,
+        compliance: legacy.compliance,
+        errorCost: legacy.errorCost,
+      },
+      legacy.total,
+    ),
+    stack(
+      "platform",
+      {
+        subscription: platform.subscription,
+        transactionFees: platform.transactionFees,
+        compliance: platform.compliance,
+        errorCost: platform.errorCost,
+      },
+      platform.total,
+    ),
+  ];
+};
+
+export type WaterfallStepKey =
+  | "legacyCost"
+  | "platformCost"
+  | "costSaving"
+  | "revenueSaving"
+  | "riskSaving"
+  | "totalBenefit";
+
+export interface WaterfallStep {
+  key: WaterfallStepKey;
+  // Totals stand on zero; changes float from the running total
+  kind: "total" | "change";
+  from: number;
+  to: number;
+}
+
+/**
+ * Walks from what legacy integrations cost to the total benefit: taking
+ * away the platform's cost leaves the cost saving, then revenue and risk
+ * savings are added on top.
+ */
+export const benefitWaterfall = (result: RoiResult): WaterfallStep[] => {
+  const legacyCost = result.legacy.total;
+  const costSaving = result.costSaving;
+  const afterRevenue = costSaving + result.revenueSaving;
+
+  return [
+    { key: "legacyCost", kind: "total", from: 0, to: legacyCost },
+    { key: "platformCost", kind: "change", from: legacyCost, to: costSaving },
+    { key: "costSaving", kind: "total", from: 0, to: costSaving },
+    {
+      key: "revenueSaving",
+      kind: "change",
+      from: costSaving,
+      to: afterRevenue,
+    },
+    {
+      key: "riskSaving",
+      kind: "change",
+      from: afterRevenue,
+      to: afterRevenue + result.riskSaving,
+    },
+    { key: "totalBenefit", kind: "total", from: 0, to: result.totalBenefit },
+  ];
+};
+
+export interface CumulativePoint {
+  year: number;
+  value: number;
+}
+
+// Cumulative net cash flow at the end of each year, starting from the
+// implementation fee paid in year 0
+export const cumulativeSavings = (
+  projection: RoiProjection,
+): CumulativePoint[] => [
+  { year: 0, value: -projection.implementationFee },
+  ...projection.years.map((year) => ({
+    year: year.year,
+    value: year.cumulativeCashFlow,
+  })),
+];
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatPlainNumber,
+  fromSgd,
+  getCurrency,
+  parseLocaleNumber,
+  toSgd,
+} from "./currency";
+
+describe("parseLocaleNumber", () => {
+  it("reads each locale's group and decimal separators", () => {
+    expect(parseLocaleNumber("1,234.5", "en-SG")).toBe(1234.5);
+    expect(parseLocaleNumber("1.234,5", "id-ID")).toBe(1234.5);
+    expect(parseLocaleNumber("1,234.5", "ms-MY")).toBe(1234.5);
+  });
+
+  it("accepts spaces, a leading decimal point and negatives", () => {
+    expect(parseLocaleNumber(" 12 000 ", "en-SG")).toBe(12000);
+    expect(parseLocaleNumber(".5", "en-SG")).toBe(0.5);
+    expect(parseLocaleNumber("-3", "en-SG")).toBe(-3);
+  });
+
+  it("rejects anything that is not a plain number", () => {
+    for (const raw of ["", "abc", "1e-7", "12abc", "1.2.3"]) {
+      expect(parseLocaleNumber(raw, "en-SG")).toBeNaN();
+    }
+  });
+});
+
+describe("formatPlainNumber", () => {
+  it("writes numbers without exponents so they parse back exactly", () => {
+    for (const value of [0.05, 1e-7, -2.5e-9, 1.2345678901234567e-7, 1e21]) {
+      const text = formatPlainNumber(value);
+      expect(text).not.toMatch(/e/);
+      expect(parseLocaleNumber(text, "en-SG")).toBe(value);
+    }
+    expect(formatPlainNumber(1e-7)).toBe("0.0000001");
+  });
+});
+
+describe("currency conversion", () => {
+  it("converts SGD amounts both ways", () => {
+    const idr = getCurrency("IDR");
+    expect(fromSgd(2, idr)).toBe(24_300);
+    expect(toSgd(fromSgd(0.05, idr), idr)).toBeCloseTo(0.05);
+  });
+
+  it("falls back to SGD for an unknown code", () => {
+    expect(getCurrency("XYZ").code).toBe("SGD");
+  });
+});
@@ -0,0 +1,73 @@
+// Display currencies. The engine always works in SGD; figures are converted
+// only for input and display. Update the rates here when they drift.
+
+export type CurrencyCode = "SGD" | "MYR" | "IDR" | "AUD" | "USD";
+
+export interface Currency {
+  code: CurrencyCode;
+  name: string;
+  // Locale used to format and parse amounts in this currency
+  locale: string;
+  // Units of this currency per 1 SGD
+  perSgd: number;
+}
+
+export const exchangeRatesAsOf = "2026-10-01";
+
+export const currencies: Currency[] = [
+  { code: "SGD", name: "Singapore Dollar", locale: "en-SG", perSgd: 1 },
+  { code: "MYR", name: "Malaysian Ringgit", locale: "ms-MY", perSgd: 3.28 },
+  { code: "IDR", name: "Indonesian Rupiah", locale: "id-ID", perSgd: 12150 },
+  { code: "AUD", name: "Australian Dollar", locale: "en-AU", perSgd: 1.17 },
+  { code: "USD", name: "US Dollar", locale: "en-US", perSgd: 0.77 },
+];
+
+export const defaultCurrency = currencies[0];
+
+export const isCurrencyCode = (value: string): value is CurrencyCode =>
+  currencies.some((currency) => currency.code === value);
+
+export const getCurrency = (code: string) =>
+  currencies.find((currency) => currency.code === code) ?? defaultCurrency;
+
+export const fromSgd = (value: number, currency: Currency) =>
+  value * currency.perSgd;
+
+export const toSgd = (value: number, currency: Currency) =>
+  value / currency.perSgd;
+
+/**
+ * Parses a number typed in the given locale, e.g. "1.234,5" in id-ID.
+ * Returns NaN for anything that is not a plain number.
+ */
+export const parseLocaleNumber = (raw: string, locale: string) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(-12345.6);
+  const group = parts.find((part) => part.type === "group")?.value ?? ",";
+  const decimal = parts.find((part) => part.type === "decimal")?.value ?? ".";
+  const minus = parts.find((part) => part.type === "minusSign")?.value ?? "-";
+
+  let normalised = raw.trim().replace(/\s/g, "").replace(minus, "-");
+  if (!/\s/.test(group)) normalised = normalised.split(group).join("");
+  normalised = normalised.split(decimal).join(".");
+
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(normalised)) return NaN;
+  return Number(normalised);
+};
+
+/**
+ * Writes a number so `parseLocaleNumber` reads it back exactly. `String()`
+ * switches to exponent notation below 1e-6, which tiny SGD amounts converted
+ * from IDR reach.
+ */
+export const formatPlainNumber = (value: number) => {
+  const text = String(value);
+  const match = /^(-?)(\d)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+  if (!match) return text;
+  const [, sign, lead, rest = "", exponent] = match;
+  const digits = lead + rest;
+  // Where the decimal point falls among the digits
+  const point = 1 + Number(exponent);
+  return point <= 0
+    ? `${sign}0.${"0".repeat(-point)}${digits}`
+    : `${sign}${digits.padEnd(point, "0")}`;
+};
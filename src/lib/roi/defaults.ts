@@ -0,0 +1,41 @@
+// ROI Calculator default values
+export const defaultValues = {
+  num_partners: 5,
+  avg_tx_per_partner: 1000,
+  int_build_cost_per_partner: 15000,
+  int_maint_pct: 20,
+  api_fee_per_tx: 0.05,
+  compliance_cost_annual: 50000,
+  error_penalty_rate: 15,
+  error_rate_legacy: 3,
+  error_rate_platform: 0.5,
+  onboard_days_legacy: 30,
+  onboard_days_platform: 5,
+  daily_revenue_per_partner: 2000,
+};
+
+export type RoiInputs = typeof defaultValues;
+export type RoiInputKey = keyof RoiInputs;
+
+// Scenario presets, scaled from a Dex's defaults so each Dex keeps its own
+// conservative and optimistic cases
+export const createScenarioPresets = (base: RoiInputs) => ({
+  conservative: {
+    ...base,
+    num_partners: Math.max(1, Math.round(base.num_partners * 0.6)),
+    avg_tx_per_partner: Math.round(base.avg_tx_per_partner * 0.5),
+    daily_revenue_per_partner: base.daily_revenue_per_partner * 0.5,
+  },
+  default: base,
+  optimistic: {
+    ...base,
+    num_partners: base.num_partners * 2,
+    avg_tx_per_partner: base.avg_tx_per_partner * 2,
+    daily_revenue_per_partner: base.daily_revenue_per_partner * 1.5,
+  },
+});
+
+export type ScenarioPresets = ReturnType<typeof createScenarioPresets>;
+export type ScenarioKey = keyof ScenarioPresets;
+
+export const scenarios: ScenarioPresets = createScenarioPresets(defaultValues);
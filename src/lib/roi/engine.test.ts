@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { defaultValues } from "./defaults";
+import {
+  calculateBenefits,
+  calculateLegacyCosts,
+  calculatePlatformCosts,
+} from "./engine";
+import { getPricingPlan } from "./pricing";
+
+// Baseline figures: 5 partners at 1,000 transactions a month is 60,000 a
+// year, on the default Growth plan
+describe("calculateLegacyCosts", () => {
+  it("adds up build, maintenance, API, compliance and error costs", () => {
+    expect(calculateLegacyCosts(defaultValues)).toEqual({
+      build: 75_000,
+      maintenance: 15_000,
+      apiFees: 3_000,
+      compliance: 50_000,
+      errorCost: 27_000,
+      total: 170_000,
+    });
+  });
+
+  it("costs nothing per transaction without partners' volume", () => {
+    const costs = calculateLegacyCosts({
+      ...defaultValues,
+      avg_tx_per_partner: 0,
+    });
+    expect(costs.apiFees).toBe(0);
+    expect(costs.errorCost).toBe(0);
+  });
+});
+
+describe("calculatePlatformCosts", () => {
+  it("prices the defaults on the Growth plan", () => {
+    const costs = calculatePlatformCosts(defaultValues);
+    expect(costs.subscription).toBe(15_000);
+    expect(costs.transactionFees).toBeCloseTo(600);
+    expect(costs.compliance).toBeCloseTo(20_000);
+    expect(costs.errorCost).toBeCloseTo(4_500);
+    expect(costs.total).toBeCloseTo(40_100);
+  });
+
+  it("uses the chosen plan's subscription and compliance reduction", () => {
+    const costs = calculatePlatformCosts(
+      defaultValues,
+      getPricingPlan("starter"),
+    );
+    expect(costs.subscription).toBe(12_500);
+    expect(costs.transactionFees).toBeCloseTo(1_200);
+    expect(costs.compliance).toBeCloseTo(25_000);
+  });
+});
+
+describe("calculateBenefits", () => {
+  it("gives the baseline headline figures", () => {
+    const result = calculateBenefits(defaultValues);
+    expect(result.totalBenefit).toBeCloseTo(402_400);
+    expect(result.costSaving).toBeCloseTo(129_900);
+    expect(result.revenueSaving).toBe(250_000);
+    expect(result.riskSaving).toBeCloseTo(22_500);
+    expect(result.onboardingDaysSaved).toBe(25);
+    expect(result.partnerBreakdown).toBeNull();
+  });
+
+  it("has no revenue saving when platform onboarding is no faster", () => {
+    const result = calculateBenefits({
+      ...defaultValues,
+      onboard_days_platform: defaultValues.onboard_days_legacy,
+    });
+    expect(result.revenueSaving).toBe(0);
+    expect(result.totalBenefit).toBeCloseTo(152_400);
+  });
+});
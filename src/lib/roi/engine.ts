@@ -0,0 +1,204 @@
+import type { RoiInputs } from "./defaults";
+import {
+  daysSaved,
+  partnerEquivalentInputs,
+  type RoiPartner,
+} from "./partners";
+import {
+  calculateTransactionFees,
+  defaultPricingPlan,
+  type PricingPlan,
+} from "./pricing";
+
+export interface LegacyCosts {
+  build: number;
+  maintenance: number;
+  apiFees: number;
+  compliance: number;
+  errorCost: number;
+  total: number;
+}
+
+export interface PlatformCosts {
+  subscription: number;
+  transactionFees: number;
+  compliance: number;
+  errorCost: number;
+  total: number;
+}
+
+// The four headline figures shown on the result cards
+export interface RoiBenefits {
+  totalBenefit: number;
+  costSaving: number;
+  revenueSaving: number;
+  riskSaving: number;
+}
+
+export type RoiMetricKey = keyof RoiBenefits;
+
+// One partner's share of the annual figures
+export interface PartnerBenefit extends RoiBenefits {
+  partner: RoiPartner;
+  annualTransactions: number;
+  legacyCost: number;
+  platformCost: number;
+}
+
+// Platform transaction fees are split by volume. The base subscription and
+// the compliance saving belong to no one partner and are counted as shared,
+// so the partners plus shared add up to the headline figures.
+export interface PartnerBreakdown {
+  partners: PartnerBenefit[];
+  shared: RoiBenefits;
+}
+
+export interface RoiResult extends RoiBenefits {
+  legacy: LegacyCosts;
+  platform: PlatformCosts;
+  onboardingDaysSaved: number;
+  // Only when the partners were modelled one by one
+  partnerBreakdown: PartnerBreakdown | null;
+}
+
+export const annualTransactions = (values: RoiInputs) =>
+  values.num_partners * values.avg_tx_per_partner * 12;
+
+export const calculateLegacyCosts = (values: RoiInputs): LegacyCosts => {
+  const build = values.num_partners * values.int_build_cost_per_partner;
+  const maintenance = build * (values.int_maint_pct / 100);
+  const apiFees = annualTransactions(values) * values.api_fee_per_tx;
+  const compliance = values.compliance_cost_annual;
+  const errorCost =
+    annualTransactions(values) *
+    (values.error_rate_legacy / 100) *
+    values.error_penalty_rate;
+
+  return {
+    build,
+    maintenance,
+    apiFees,
+    compliance,
+    errorCost,
+    total: build + maintenance + apiFees + compliance + errorCost,
+  };
+};
+
+export const calculatePlatformCosts = (
+  values: RoiInputs,
+  plan: PricingPlan = defaultPricingPlan,
+): PlatformCosts => {
+  const subscription =
+    plan.baseSubscription + values.num_partners * plan.perPartnerFee;
+  const transactionFees = calculateTransactionFees(
+    annualTransactions(values),
+    plan.transactionFeeBands,
+  );
+  const compliance =
+    values.compliance_cost_annual * (1 - plan.complianceReduction);
+  const errorCost =
+    annualTransactions(values) *
+    (values.error_rate_platform / 100) *
+    values.error_penalty_rate;
+
+  return {
+    subscription,
+    transactionFees,
+    compliance,
+    errorCost,
+    total: subscription + transactionFees + compliance + errorCost,
+  };
+};
+
+const calculatePartnerBreakdown = (
+  values: RoiInputs,
+  plan: PricingPlan,
+  platform: PlatformCosts,
+  partners: RoiPartner[],
+): PartnerBreakdown => {
+  const totalTransactions = annualTransactions(values);
+  const errorCost = (transactions: number, ratePct: number) =>
+    transactions * (ratePct / 100) * values.error_penalty_rate;
+
+  const rows = partners.map((partner): PartnerBenefit => {
+    const transactions = partner.monthlyTransactions * 12;
+    const legacyError = errorCost(transactions, values.error_rate_legacy);
+    const platformError = errorCost(transactions, values.error_rate_platform);
+    const legacyCost =
+      partner.buildCost * (1 + values.int_maint_pct / 100) +
+      transactions * values.api_fee_per_tx +
+      legacyError;
+    const feeShare =
+      totalTransactions > 0 ? transactions / totalTransactions : 0;
+    const platformCost =
+      plan.perPartnerFee + platform.transactionFees * feeShare + platformError;
+    const costSaving = legacyCost - platformCost;
+    const riskSaving = legacyError - platformError;
+    const revenueSaving = partner.dailyRevenue * daysSaved(partner);
+
+    return {
+      partner,
+      annualTransactions: transactions,
+      legacyCost,
+      platformCost,
+      totalBenefit: revenueSaving + costSaving + riskSaving,
+      costSaving,
+      revenueSaving,
+      riskSaving,
+    };
+  });
+
+  const sharedSaving =
+    values.compliance_cost_annual - platform.compliance - plan.baseSubscription;
+  return {
+    partners: rows,
+    shared: {
+      totalBenefit: sharedSaving,
+      costSaving: sharedSaving,
+      revenueSaving: 0,
+      riskSaving: 0,
+    },
+  };
+};
+
+/**
+ * Annual benefit of the platform. With a partner table, the totals come from
+ * its rows and the result carries each partner's share; without one, every
+ * partner is assumed to match the per-partner averages in `inputs`.
+ */
+export const calculateBenefits = (
+  inputs: RoiInputs,
+  plan: PricingPlan = defaultPricingPlan,
+  partners: RoiPartner[] | null = null,
+): RoiResult => {
+  const byPartner = partners !== null && partners.length > 0;
+  const values = byPartner ? partnerEquivalentInputs(inputs, partners) : inputs;
+  const legacy = calculateLegacyCosts(values);
+  const platform = calculatePlatformCosts(values, plan);
+
+  const onboardingDaysSaved =
+    values.onboard_days_legacy - values.onboard_days_platform;
+  // Summed over the rows, so it matches the breakdown exactly rather than
+  // to rounding
+  const revenueSaving = byPartner
+    ? partners.reduce(
+        (total, partner) => total + partner.dailyRevenue * daysSaved(partner),
+        0,
+      )
+    : values.num_partners * values.daily_revenue_per_partner * onboardingDaysSaved;
+  const costSaving = legacy.total - platform.total;
+  const riskSaving = legacy.errorCost - platform.errorCost;
+
+  return {
+    totalBenefit: revenueSaving + costSaving + riskSaving,
+    costSaving,
+    revenueSaving,
+    riskSaving,
+    legacy,
+    platform,
+    onboardingDaysSaved,
+    partnerBreakdown: byPartner
+      ? calculatePartnerBreakdown(values, plan, platform, partners)
+      : null,
+  };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { getCurrency } from "./currency";
+import { parseRoiInput, roiFieldsByKey } from "./fields";
+import { createRoiFormatter } from "./format";
+
+const idr = getCurrency("IDR");
+
+describe("parseRoiInput", () => {
+  it("reads money with the currency's separators", () => {
+    expect(
+      parseRoiInput(roiFieldsByKey.int_build_cost_per_partner, "121.500", idr),
+    ).toEqual({ ok: true, value: 10 });
+  });
+
+  it("reads other fields with the page's separators whatever the currency", () => {
+    expect(
+      parseRoiInput(roiFieldsByKey.error_rate_platform, "0.5", idr, "en-SG"),
+    ).toEqual({ ok: true, value: 0.5 });
+    expect(
+      parseRoiInput(roiFieldsByKey.avg_tx_per_partner, "1,200", idr, "en-SG"),
+    ).toEqual({ ok: true, value: 1200 });
+  });
+});
+
+describe("createRoiFormatter", () => {
+  it("writes form values the way parseRoiInput reads them", () => {
+    const format = createRoiFormatter(idr, "en-SG");
+    expect(
+      format.formatInputValue(roiFieldsByKey.error_rate_platform, 0.5),
+    ).toBe("0.5");
+    expect(
+      format.formatInputValue(roiFieldsByKey.int_build_cost_per_partner, 100),
+    ).toBe("1.215.000");
+  });
+});
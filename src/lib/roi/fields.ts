@@ -0,0 +1,254 @@
+import {
+  defaultCurrency,
+  formatPlainNumber,
+  fromSgd,
+  parseLocaleNumber,
+  toSgd,
+  type Currency,
+} from "./currency";
+import type { RoiInputKey, RoiInputs } from "./defaults";
+
+// How a field's value is entered and displayed. Percent fields hold the
+// whole-number percentage (20 means 20%), never the 0.2 fraction.
+export type RoiFieldKind = "currency" | "percent" | "count" | "days";
+
+export interface RoiField {
+  key: RoiInputKey;
+  label: string;
+  help: string;
+  kind: RoiFieldKind;
+  group: RoiFieldGroup;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}
+
+export type RoiFieldGroup = "volume" | "integration" | "risk" | "onboarding";
+
+export const roiFieldGroups: Record<RoiFieldGroup, string> = {
+  volume: "Partners & Volume",
+  integration: "Legacy Integration",
+  risk: "Risk & Compliance",
+  onboarding: "Onboarding & Revenue",
+};
+
+export const roiFields: RoiField[] = [
+  {
+    key: "num_partners",
+    label: "Number of Trading Partners",
+    help: "Organisations you exchange data with.",
+    kind: "count",
+    group: "volume",
+    min: 1,
+    max: 1000,
+    step: 1,
+    integer: true,
+  },
+  {
+    key: "avg_tx_per_partner",
+    label: "Monthly Transactions per Partner",
+    help: "Average data exchanges per partner each month.",
+    kind: "count",
+    group: "volume",
+    min: 0,
+    max: 10_000_000,
+    step: 100,
+    integer: true,
+  },
+  {
+    key: "int_build_cost_per_partner",
+    label: "Integration Cost per Partner",
+    help: "One-off cost to build a point-to-point integration.",
+    kind: "currency",
+    group: "integration",
+    min: 0,
+    max: 10_000_000,
+    step: 1000,
+  },
+  {
+    key: "int_maint_pct",
+    label: "Annual Maintenance",
+    help: "Yearly upkeep as a percentage of the build cost.",
+    kind: "percent",
+    group: "integration",
+    min: 0,
+    max: 100,
+    step: 1,
+  },
+  {
+    key: "api_fee_per_tx",
+    label: "Legacy API Fee per Transaction",
+    help: "Fee paid to gateways or middleware for each exchange.",
+    kind: "currency",
+    group: "integration",
+    min: 0,
+    max: 1000,
+    step: 0.01,
+  },
+  {
+    key: "compliance_cost_annual",
+    label: "Annual Compliance Cost",
+    help: "Audits, reporting and data-protection overhead per year.",
+    kind: "currency",
+    group: "risk",
+    min: 0,
+    max: 100_000_000,
+    step: 1000,
+  },
+  {
+    key: "error_penalty_rate",
+    label: "Cost per Failed Transaction",
+    help: "Rework, penalties and write-offs caused by one bad exchange.",
+    kind: "currency",
+    group: "risk",
+    min: 0,
+    max: 1_000_000,
+    step: 1,
+  },
+  {
+    key: "error_rate_legacy",
+    label: "Legacy Error Rate",
+    help: "Share of transactions that fail or need correction today.",
+    kind: "percent",
+    group: "risk",
+    min: 0,
+    max: 100,
+    step: 0.1,
+  },
+  {
+    key: "error_rate_platform",
+    label: "Platform Error Rate",
+    help: "Expected failure share with automated validation.",
+    kind: "percent",
+    group: "risk",
+    min: 0,
+    max: 100,
+    step: 0.1,
+  },
+  {
+    key: "onboard_days_legacy",
+    label: "Legacy Onboarding Time",
+    help: "Days to bring a new partner live today.",
+    kind: "days",
+    group: "onboarding",
+    min: 0,
+    max: 365,
+    step: 1,
+    integer: true,
+  },
+  {
+    key: "onboard_days_platform",
+    label: "Platform Onboarding Time",
+    help: "Days to bring a new partner live on the platform.",
+    kind: "days",
+    group: "onboarding",
+    min: 0,
+    max: 365,
+    step: 1,
+    integer: true,
+  },
+  {
+    key: "daily_revenue_per_partner",
+    label: "Daily Revenue per Partner",
+    help: "Revenue a live partner generates each day.",
+    kind: "currency",
+    group: "onboarding",
+    min: 0,
+    max: 10_000_000,
+    step: 100,
+  },
+];
+
+export const roiFieldsByKey = Object.fromEntries(
+  roiFields.map((field) => [field.key, field]),
+) as Record<RoiInputKey, RoiField>;
+
+export const fieldUnit = (
+  field: RoiField,
+  currency: Currency = defaultCurrency,
+) => {
+  switch (field.kind) {
+    case "currency":
+      return currency.code;
+    case "percent":
+      return "%";
+    case "days":
+      return "days";
+    default:
+      return "";
+  }
+};
+
+// Why a typed value was rejected, for showing the message in another
+// language. Range bounds are in the units the value was typed in.
+export type RoiInputIssue =
+  | { type: "required" }
+  | { type: "number" }
+  | { type: "integer" }
+  | { type: "range"; min: number; max: number };
+
+export type ParsedRoiInput =
+  | { ok: true; value: number }
+  | { ok: false; error: string; issue: RoiInputIssue };
+
+/**
+ * Validates a typed value. Money is entered in `currency` using its locale's
+ * separators and returned in SGD; bounds are checked in SGD. Other fields use
+ * `locale`'s separators, so "0.5" stays a half percent whatever the currency.
+ */
+export const parseRoiInput = (
+  field: RoiField,
+  raw: string,
+  currency: Currency = defaultCurrency,
+  locale: string = defaultCurrency.locale,
+): ParsedRoiInput => {
+  const typedLocale = field.kind === "currency" ? currency.locale : locale;
+  const trimmed = raw.trim();
+  if (trimmed === "") {
+    return {
+      ok: false,
+      error: `${field.label} is required.`,
+      issue: { type: "required" },
+    };
+  }
+
+  const typed = parseLocaleNumber(trimmed, typedLocale);
+  if (!Number.isFinite(typed)) {
+    return { ok: false, error: "Enter a number.", issue: { type: "number" } };
+  }
+  if (field.integer && !Number.isInteger(typed)) {
+    return {
+      ok: false,
+      error: "Enter a whole number.",
+      issue: { type: "integer" },
+    };
+  }
+
+  const value = field.kind === "currency" ? toSgd(typed, currency) : typed;
+  if (value < field.min || value > field.max) {
+    const shown = (sgd: number) =>
+      field.kind === "currency" ? fromSgd(sgd, currency) : sgd;
+    const bound = (sgd: number) =>
+      shown(sgd).toLocaleString(typedLocale, { maximumFractionDigits: 2 });
+    const unit = fieldUnit(field, currency);
+    const suffix = unit === "%" ? "%" : unit ? ` ${unit}` : "";
+    return {
+      ok: false,
+      error: `Must be between ${bound(field.min)}${suffix} and ${bound(field.max)}${suffix}.`,
+      issue: { type: "range", min: shown(field.min), max: shown(field.max) },
+    };
+  }
+
+  return { ok: true, value };
+};
+
+// Checks a full set of inputs, e.g. one restored from outside the form
+export const validateRoiInputs = (values: RoiInputs) => {
+  const errors: Partial<Record<RoiInputKey, string>> = {};
+  for (const field of roiFields) {
+    const parsed = parseRoiInput(field, formatPlainNumber(values[field.key]));
+    if (!parsed.ok) errors[field.key] = parsed.error;
+  }
+  return errors;
+};
@@ -0,0 +1,89 @@
+import { defaultCurrency, fromSgd, type Currency } from "./currency";
+import type { RoiField } from "./fields";
+
+export interface RoiFormatter {
+  currency: Currency;
+  // Locale for numbers that aren't money, normally the page's language
+  locale: string;
+  // Takes an SGD amount and shows it in the selected currency. Compact
+  // amounts are for chart axes, e.g. "SGD 1.2M".
+  formatMoney: (
+    sgd: number,
+    options?: { precise?: boolean; compact?: boolean },
+  ) => string;
+  formatNumber: (value: number, maximumFractionDigits?: number) => string;
+  // A number in a field's display units, with the separators the field is
+  // typed with: the currency's for money, the page's for everything else
+  formatFieldNumber: (
+    field: RoiField,
+    value: number,
+    maximumFractionDigits?: number,
+  ) => string;
+  // Form value of a field in display units, e.g. "15,000" or "11.550,00"
+  formatInputValue: (field: RoiField, value: number) => string;
+}
+
+export const createRoiFormatter = (
+  currency: Currency = defaultCurrency,
+  locale: string = defaultCurrency.locale,
+): RoiFormatter => {
+  const money = new Intl.NumberFormat(currency.locale, {
+    style: "currency",
+    currency: currency.code,
+    currencyDisplay: "code",
+    maximumFractionDigits: 0,
+  });
+  const preciseMoney = new Intl.NumberFormat(currency.locale, {
+    style: "currency",
+    currency: currency.code,
+    currencyDisplay: "code",
+    maximumFractionDigits: 4,
+  });
+  const compactMoney = new Intl.NumberFormat(currency.locale, {
+    style: "currency",
+    currency: currency.code,
+    currencyDisplay: "code",
+    notation: "compact",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1,
+  });
+
+  const formatNumber = (value: number, maximumFractionDigits = 2) =>
+    new Intl.NumberFormat(locale, { maximumFractionDigits }).format(value);
+  const formatFieldNumber = (
+    field: RoiField,
+    value: number,
+    maximumFractionDigits = 2,
+  ) =>
+    new Intl.NumberFormat(
+      field.kind === "currency" ? currency.locale : locale,
+      { maximumFractionDigits },
+    ).format(value);
+
+  return {
+    currency,
+    locale,
+    formatMoney: (sgd, options) =>
+      (options?.precise
+        ? preciseMoney
+        : options?.compact
+          ? compactMoney
+          : money
+      ).format(fromSgd(sgd, currency)),
+    formatNumber,
+    formatFieldNumber,
+    formatInputValue: (field, value) =>
+      formatFieldNumber(
+        field,
+        field.kind === "currency" ? fromSgd(value, currency) : value,
+        4,
+      ),
+  };
+};
+
+const sgdFormatter = createRoiFormatter();
+
+export const formatSgd = (value: number) => sgdFormatter.formatMoney(value);
+
+export const formatPercent = (value: number, digits = 1) =>
+  `${value.toFixed(digits)}%`;
@@ -0,0 +1,17 @@
+export * from "./defaults";
+export * from "./engine";
+export * from "./metrics";
+export * from "./fields";
+export * from "./pricing";
+export * from "./projection";
+export * from "./format";
+export * from "./solver";
+export * from "./sensitivity";
+export * from "./scenarios";
+export * from "./urlState";
+export * from "./report";
+export * from "./reportPdf";
+export * from "./currency";
+export * from "./partners";
+export * from "./charts";
+export * from "./session";
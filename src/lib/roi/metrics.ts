@@ -0,0 +1,42 @@
+import type { RoiMetricKey } from "./engine";
+
+export interface MetricExplanation {
+  title: string;
+  formula: string;
+  what: string;
+  why: string;
+  hook: string;
+}
+
+// Metric explanations. These English strings feed exported reports; the
+// page shows the translated copy from src/content/messages.
+export const metricExplanations = {
+  totalBenefit: {
+    title: "Total Benefit",
+    formula: "Revenue Impact + Cost Savings + Risk Mitigation",
+    what: "Comprehensive measure of financial gains from adopting our platform, combining direct savings, additional revenue, and risk reduction.",
+    why: "Shows the complete picture of value creation, helping justify investment decisions and demonstrate ROI to stakeholders.",
+    hook: "Our platform delivers value across multiple dimensions, from operational efficiency to revenue acceleration. See how much you could gain with a modern data exchange solution.",
+  },
+  costSaving: {
+    title: "Cost Savings",
+    formula: "Legacy Costs - Platform Costs",
+    what: "Direct reduction in operational expenses from replacing legacy systems with our streamlined platform.",
+    why: "Immediate impact on bottom line through reduced integration, maintenance, and transaction costs.",
+    hook: "Stop overpaying for outdated data exchange methods. Our platform typically reduces operational costs by 40-60% while delivering superior capabilities.",
+  },
+  revenueSaving: {
+    title: "Revenue Impact",
+    formula: "Partners × Daily Revenue × Time Saved",
+    what: "Additional revenue captured by reducing partner onboarding time and eliminating trading delays.",
+    why: "Faster time-to-revenue means better cash flow and competitive advantage in fast-moving markets.",
+    hook: "Every day spent onboarding partners is lost revenue. Our platform cuts integration time by 80%, getting you to revenue faster.",
+  },
+  riskSaving: {
+    title: "Risk Mitigation",
+    formula: "Legacy Error Costs - Platform Error Costs",
+    what: "Financial benefit of reduced errors, penalties, and compliance issues through automated validation.",
+    why: "Protects revenue and reputation by preventing costly mistakes and ensuring regulatory compliance.",
+    hook: "Data errors cost more than just money - they damage relationships and reputation. Our platform's built-in validation prevents costly mistakes.",
+  },
+} satisfies Record<RoiMetricKey, MetricExplanation>;
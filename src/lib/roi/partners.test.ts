@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { getCurrency } from "./currency";
+import { defaultValues } from "./defaults";
+import { calculateBenefits } from "./engine";
+import {
+  createPartner,
+  maxPartnerRows,
+  parsePartnerCsv,
+  partnerEquivalentInputs,
+  partnersFromInputs,
+} from "./partners";
+
+describe("parsePartnerCsv", () => {
+  it("skips a header line and names unnamed rows", () => {
+    const { partners, issues } = parsePartnerCsv(
+      "Name,Tx,Build,Revenue,Legacy,Platform\n" +
+        "Acme,1000,15000,2000,30,5\n" +
+        ',"2,000",10000,500,20,10',
+    );
+    expect(issues).toEqual([]);
+    expect(partners.map(({ id: _, ...partner }) => partner)).toEqual([
+      {
+        name: "Acme",
+        monthlyTransactions: 1_000,
+        buildCost: 15_000,
+        dailyRevenue: 2_000,
+        onboardDaysLegacy: 30,
+        onboardDaysPlatform: 5,
+      },
+      {
+        name: "Partner 2",
+        monthlyTransactions: 2_000,
+        buildCost: 10_000,
+        dailyRevenue: 500,
+        onboardDaysLegacy: 20,
+        onboardDaysPlatform: 10,
+      },
+    ]);
+  });
+
+  it("reads spreadsheet tabs and semicolons, with money in the currency's locale", () => {
+    const tabs = parsePartnerCsv("A\t1000\t15000\t2000\t30\t5");
+    expect(tabs.partners[0].buildCost).toBe(15_000);
+
+    const idr = getCurrency("IDR");
+    const semicolons = parsePartnerCsv("B;1,000;15.000.000;0;30;5", idr);
+    expect(semicolons.issues).toEqual([]);
+    expect(semicolons.partners[0].monthlyTransactions).toBe(1_000);
+    expect(semicolons.partners[0].buildCost).toBeCloseTo(
+      15_000_000 / idr.perSgd,
+    );
+  });
+
+  it("reports lines with the wrong columns or invalid figures", () => {
+    const { partners, issues } = parsePartnerCsv(
+      "A,1000,15000,2000,30,5\n\nB,1000\nC,-1,15000,2000,30,5",
+    );
+    expect(partners).toHaveLength(1);
+    expect(issues).toEqual([
+      { line: 3, column: null, issue: { type: "columns", expected: 6 } },
+      expect.objectContaining({ line: 4, column: "monthlyTransactions" }),
+    ]);
+  });
+
+  it("flags more partners than the table holds", () => {
+    const rows = Array.from(
+      { length: maxPartnerRows + 1 },
+      (_, i) => `P${i},10,0,0,1,1`,
+    );
+    const { issues } = parsePartnerCsv(rows.join("\n"));
+    expect(issues).toEqual([
+      {
+        line: maxPartnerRows + 1,
+        column: null,
+        issue: { type: "tooMany", max: maxPartnerRows },
+      },
+    ]);
+  });
+});
+
+describe("partner breakdown", () => {
+  it("matches the uniform figures when every row is the average", () => {
+    const partners = partnersFromInputs(defaultValues);
+    expect(partnerEquivalentInputs(defaultValues, partners)).toEqual(
+      defaultValues,
+    );
+    const result = calculateBenefits(defaultValues, undefined, partners);
+    expect(result.totalBenefit).toBeCloseTo(402_400);
+  });
+
+  it("adds up to the headline when days saved cancel out", () => {
+    const partners = [
+      {
+        ...createPartner(defaultValues, "Faster"),
+        dailyRevenue: 1_000,
+        onboardDaysLegacy: 10,
+        onboardDaysPlatform: 5,
+      },
+      {
+        ...createPartner(defaultValues, "Slower"),
+        dailyRevenue: 10,
+        onboardDaysLegacy: 5,
+        onboardDaysPlatform: 10,
+      },
+    ];
+    const result = calculateBenefits(defaultValues, undefined, partners);
+    const breakdown = result.partnerBreakdown!;
+    expect(breakdown.partners.map((row) => row.revenueSaving)).toEqual([
+      5_000, -50,
+    ]);
+    expect(result.revenueSaving).toBe(4_950);
+
+    const rows = [...breakdown.partners, breakdown.shared];
+    for (const metric of [
+      "totalBenefit",
+      "costSaving",
+      "revenueSaving",
+      "riskSaving",
+    ] as const) {
+      const total = rows.reduce((sum, row) => sum + row[metric], 0);
+      expect(total).toBeCloseTo(result[metric]);
+    }
+  });
+
+  it("gives averages that carry the headline revenue when days saved cancel out", () => {
+    for (const [faster, slower] of [
+      [1_000, 10],
+      [10, 1_000],
+    ]) {
+      const partners = [
+        {
+          ...createPartner(defaultValues, "Faster"),
+          dailyRevenue: faster,
+          onboardDaysLegacy: 10,
+          onboardDaysPlatform: 5,
+        },
+        {
+          ...createPartner(defaultValues, "Slower"),
+          dailyRevenue: slower,
+          onboardDaysLegacy: 5,
+          onboardDaysPlatform: 10,
+        },
+      ];
+      const headline = calculateBenefits(defaultValues, undefined, partners);
+      const averages = partnerEquivalentInputs(defaultValues, partners);
+      expect(averages.daily_revenue_per_partner).toBeGreaterThanOrEqual(0);
+      expect(calculateBenefits(averages).revenueSaving).toBeCloseTo(
+        headline.revenueSaving,
+      );
+    }
+  });
+});
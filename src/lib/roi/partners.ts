@@ -0,0 +1,254 @@
+import { defaultCurrency, parseLocaleNumber, type Currency } from "./currency";
+import type { RoiInputKey, RoiInputs } from "./defaults";
+import {
+  parseRoiInput,
+  roiFieldsByKey,
+  type RoiField,
+  type RoiInputIssue,
+} from "./fields";
+
+// One row of the partner table. Money is in SGD, like RoiInputs.
+export interface RoiPartner {
+  id: string;
+  name: string;
+  monthlyTransactions: number;
+  buildCost: number;
+  dailyRevenue: number;
+  onboardDaysLegacy: number;
+  onboardDaysPlatform: number;
+}
+
+export type RoiPartnerKey = Exclude<keyof RoiPartner, "id" | "name">;
+
+// Each column replaces one of the uniform per-partner inputs and is held to
+// that input's bounds
+export const partnerColumns: { key: RoiPartnerKey; field: RoiField }[] = [
+  { key: "monthlyTransactions", field: roiFieldsByKey.avg_tx_per_partner },
+  { key: "buildCost", field: roiFieldsByKey.int_build_cost_per_partner },
+  { key: "dailyRevenue", field: roiFieldsByKey.daily_revenue_per_partner },
+  { key: "onboardDaysLegacy", field: roiFieldsByKey.onboard_days_legacy },
+  { key: "onboardDaysPlatform", field: roiFieldsByKey.onboard_days_platform },
+];
+
+// Inputs the table takes over; the form shows them read-only while it's used
+export const partnerTableInputs: RoiInputKey[] = [
+  "num_partners",
+  ...partnerColumns.map((column) => column.field.key),
+];
+
+export const maxPartnerRows = roiFieldsByKey.num_partners.max;
+
+export const createPartnerId = () =>
+  `partner-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// A row filled with the uniform averages
+export const createPartner = (values: RoiInputs, name: string): RoiPartner => ({
+  id: createPartnerId(),
+  name,
+  monthlyTransactions: values.avg_tx_per_partner,
+  buildCost: values.int_build_cost_per_partner,
+  dailyRevenue: values.daily_revenue_per_partner,
+  onboardDaysLegacy: values.onboard_days_legacy,
+  onboardDaysPlatform: values.onboard_days_platform,
+});
+
+// Names rows that have none; the calculator passes a translated one
+type PartnerName = (index: number) => string;
+
+const defaultPartnerName: PartnerName = (index) => `Partner ${index + 1}`;
+
+// Starts the table with one row per partner, so the totals don't move
+// until a row is edited
+export const partnersFromInputs = (
+  values: RoiInputs,
+  name: PartnerName = defaultPartnerName,
+): RoiPartner[] =>
+  Array.from(
+    { length: Math.min(values.num_partners, maxPartnerRows) },
+    (_, i) => createPartner(values, name(i)),
+  );
+
+const sum = (partners: RoiPartner[], value: (partner: RoiPartner) => number) =>
+  partners.reduce((total, partner) => total + value(partner), 0);
+
+export const daysSaved = (partner: RoiPartner) =>
+  partner.onboardDaysLegacy - partner.onboardDaysPlatform;
+
+/**
+ * The uniform inputs that give the same annual totals as the table, so the
+ * projection, sensitivity and goal-seek views keep working on averages.
+ * Revenue saving is the sum of each partner's revenue × days saved, not the
+ * product of the averages, so daily revenue is weighted by days saved.
+ * When the days saved cancel out but the revenue doesn't, the onboarding
+ * days are set one day apart instead and daily revenue carries the sum.
+ */
+export const partnerEquivalentInputs = (
+  values: RoiInputs,
+  partners: RoiPartner[],
+): RoiInputs => {
+  const count = partners.length;
+  if (count === 0) return values;
+  const mean = (value: (partner: RoiPartner) => number) =>
+    sum(partners, value) / count;
+  const totalDaysSaved = sum(partners, daysSaved);
+  const revenueSaving = sum(
+    partners,
+    (partner) => partner.dailyRevenue * daysSaved(partner),
+  );
+  const uniform = {
+    ...values,
+    num_partners: count,
+    avg_tx_per_partner: mean((partner) => partner.monthlyTransactions),
+    int_build_cost_per_partner: mean((partner) => partner.buildCost),
+    onboard_days_legacy: mean((partner) => partner.onboardDaysLegacy),
+    onboard_days_platform: mean((partner) => partner.onboardDaysPlatform),
+  };
+
+  if (totalDaysSaved !== 0) {
+    return {
+      ...uniform,
+      daily_revenue_per_partner: revenueSaving / totalDaysSaved,
+    };
+  }
+  if (revenueSaving === 0) {
+    return {
+      ...uniform,
+      daily_revenue_per_partner: mean((partner) => partner.dailyRevenue),
+    };
+  }
+  // Daily revenue can't be negative, so a loss is a day slower instead
+  const platformDays = Math.max(uniform.onboard_days_platform, 1);
+  return {
+    ...uniform,
+    onboard_days_platform: platformDays,
+    onboard_days_legacy: platformDays + Math.sign(revenueSaving),
+    daily_revenue_per_partner: Math.abs(revenueSaving) / count,
+  };
+};
+
+// Leaving the table keeps its averages, rounded where the form expects
+// whole numbers
+export const roundToFields = (values: RoiInputs): RoiInputs => {
+  const rounded = { ...values };
+  for (const key of partnerTableInputs) {
+    if (roiFieldsByKey[key].integer) rounded[key] = Math.round(rounded[key]);
+  }
+  return rounded;
+};
+
+// Why a pasted line was rejected. Lines count from 1 as shown in the paste.
+export type PartnerCsvIssue =
+  | { line: number; column: RoiPartnerKey; issue: RoiInputIssue }
+  | { line: number; column: null; issue: { type: "columns"; expected: number } }
+  | { line: number; column: null; issue: { type: "tooMany"; max: number } };
+
+export interface ParsedPartnerCsv {
+  partners: RoiPartner[];
+  issues: PartnerCsvIssue[];
+}
+
+// Quoted cells may contain the delimiter and doubled quotes
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+};
+
+// Spreadsheets paste tab-separated rows; semicolons are common where the
+// decimal separator is a comma
+const detectDelimiter = (line: string) => {
+  if (line.includes("\t")) return "\t";
+  if (line.includes(";")) return ";";
+  return ",";
+};
+
+/**
+ * Reads partners pasted as CSV or from a spreadsheet, one per line:
+ * name, monthly transactions, build cost, daily revenue, legacy onboarding
+ * days, platform onboarding days. Money is typed in `currency` and returned
+ * in SGD, and the other figures use `locale`'s separators. A first line
+ * whose figures aren't numbers is taken as a header, and rows without a name
+ * are named by `name`.
+ */
+export const parsePartnerCsv = (
+  text: string,
+  currency: Currency = defaultCurrency,
+  name: PartnerName = defaultPartnerName,
+  locale: string = defaultCurrency.locale,
+): ParsedPartnerCsv => {
+  const lines = text
+    .split(/\r\n|\r|\n/)
+    .map((content, index) => ({ content, line: index + 1 }))
+    .filter(({ content }) => content.trim() !== "");
+  if (lines.length === 0) return { partners: [], issues: [] };
+
+  const delimiter = detectDelimiter(lines[0].content);
+  const expected = partnerColumns.length + 1;
+  const partners: RoiPartner[] = [];
+  const issues: PartnerCsvIssue[] = [];
+
+  lines.forEach(({ content, line }, index) => {
+    const cells = splitCsvLine(content, delimiter);
+    const isHeader =
+      index === 0 && Number.isNaN(parseLocaleNumber(cells[1] ?? "", locale));
+    if (isHeader) return;
+
+    if (cells.length !== expected) {
+      issues.push({ line, column: null, issue: { type: "columns", expected } });
+      return;
+    }
+
+    const partner: RoiPartner = {
+      id: createPartnerId(),
+      name: cells[0] || name(partners.length),
+      monthlyTransactions: 0,
+      buildCost: 0,
+      dailyRevenue: 0,
+      onboardDaysLegacy: 0,
+      onboardDaysPlatform: 0,
+    };
+    let valid = true;
+    partnerColumns.forEach(({ key, field }, column) => {
+      const parsed = parseRoiInput(field, cells[column + 1], currency, locale);
+      if (parsed.ok) {
+        partner[key] = parsed.value;
+      } else {
+        valid = false;
+        issues.push({ line, column: key, issue: parsed.issue });
+      }
+    });
+    if (valid) partners.push(partner);
+  });
+
+  if (partners.length > maxPartnerRows) {
+    issues.push({
+      line: lines[lines.length - 1].line,
+      column: null,
+      issue: { type: "tooMany", max: maxPartnerRows },
+    });
+  }
+
+  return { partners, issues };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateTransactionFees,
+  exceedsPlanLimit,
+  getPricingPlan,
+} from "./pricing";
+
+const enterprise = getPricingPlan("enterprise").transactionFeeBands;
+
+describe("calculateTransactionFees", () => {
+  it("bills a flat band at one rate", () => {
+    expect(
+      calculateTransactionFees(
+        60_000,
+        getPricingPlan("starter").transactionFeeBands,
+      ),
+    ).toBeCloseTo(1_200);
+  });
+
+  it("bills each band's volume at its own rate", () => {
+    // 1M at 0.008, 9M at 0.005 and the last 2M at 0.003
+    expect(calculateTransactionFees(12_000_000, enterprise)).toBeCloseTo(
+      8_000 + 45_000 + 6_000,
+    );
+  });
+
+  it("stops at the volume inside a band", () => {
+    expect(calculateTransactionFees(500_000, enterprise)).toBeCloseTo(4_000);
+    expect(calculateTransactionFees(1_000_000, enterprise)).toBeCloseTo(8_000);
+  });
+
+  it("charges nothing for no transactions", () => {
+    expect(calculateTransactionFees(0, enterprise)).toBe(0);
+  });
+});
+
+describe("exceedsPlanLimit", () => {
+  it("only limits plans with a partner cap", () => {
+    expect(exceedsPlanLimit(getPricingPlan("starter"), 11)).toBe(true);
+    expect(exceedsPlanLimit(getPricingPlan("starter"), 10)).toBe(false);
+    expect(exceedsPlanLimit(getPricingPlan("enterprise"), 10_000)).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+// Platform pricing plans. Update the figures here when pricing changes;
+// the calculator reads them at runtime and needs no other edits.
+
+export interface TransactionFeeBand {
+  // Upper bound of annual transactions billed at this rate; null is unbounded
+  upTo: number | null;
+  feePerTx: number;
+}
+
+export interface PricingPlan {
+  id: string;
+  name: string;
+  description: string;
+  // One-off onboarding and setup charge, paid before go-live
+  implementationFee: number;
+  baseSubscription: number;
+  perPartnerFee: number;
+  maxPartners: number | null;
+  // Bands are marginal: each rate applies only to the volume inside its band
+  transactionFeeBands: TransactionFeeBand[];
+  // Share of the legacy compliance cost the platform removes, 0 to 1
+  complianceReduction: number;
+}
+
+export const pricingPlans: PricingPlan[] = [
+  {
+    id: "starter",
+    name: "Starter",
+    description: "For teams connecting their first few partners.",
+    implementationFee: 5000,
+    baseSubscription: 5000,
+    perPartnerFee: 1500,
+    maxPartners: 10,
+    transactionFeeBands: [{ upTo: null, feePerTx: 0.02 }],
+    complianceReduction: 0.5,
+  },
+  {
+    id: "growth",
+    name: "Growth",
+    description: "For established networks scaling partner volume.",
+    implementationFee: 25000,
+    baseSubscription: 10000,
+    perPartnerFee: 1000,
+    maxPartners: 100,
+    transactionFeeBands: [
+      { upTo: 1_000_000, feePerTx: 0.01 },
+      { upTo: null, feePerTx: 0.008 },
+    ],
+    complianceReduction: 0.6,
+  },
+  {
+    id: "enterprise",
+    name: "Enterprise",
+    description: "For national-scale exchanges with high throughput.",
+    implementationFee: 100000,
+    baseSubscription: 50000,
+    perPartnerFee: 500,
+    maxPartners: null,
+    transactionFeeBands: [
+      { upTo: 1_000_000, feePerTx: 0.008 },
+      { upTo: 10_000_000, feePerTx: 0.005 },
+      { upTo: null, feePerTx: 0.003 },
+    ],
+    complianceReduction: 0.7,
+  },
+];
+
+export const defaultPricingPlan = pricingPlans[1];
+
+export const getPricingPlan = (id: string) =>
+  pricingPlans.find((plan) => plan.id === id) ?? defaultPricingPlan;
+
+export const calculateTransactionFees = (
+  transactions: number,
+  bands: TransactionFeeBand[],
+) => {
+  let fees = 0;
+  let billed = 0;
+  for (const band of bands) {
+    if (billed >= transactions) break;
+    const bandEnd =
+      band.upTo === null ? transactions : Math.min(band.upTo, transactions);
+    fees += (bandEnd - billed) * band.feePerTx;
+    billed = bandEnd;
+  }
+  return fees;
+};
+
+export const exceedsPlanLimit = (plan: PricingPlan, partners: number) =>
+  plan.maxPartners !== null && partners > plan.maxPartners;
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { defaultValues } from "./defaults";
+import { calculateProjection, irr, npv } from "./projection";
+
+describe("npv", () => {
+  it("discounts each period's cash flow", () => {
+    expect(npv(10, [-100, 110])).toBeCloseTo(0);
+    expect(npv(10, [-100, 55, 60.5])).toBeCloseTo(0);
+    expect(npv(0, [-100, 30, 30])).toBe(-40);
+  });
+});
+
+describe("irr", () => {
+  it("finds the rate where NPV is zero", () => {
+    expect(irr([-100, 110])).toBeCloseTo(10, 4);
+    expect(irr([-1000, 500, 500, 500])).toBeCloseTo(23.375, 2);
+  });
+
+  it("is null when the cash flows never change sign", () => {
+    expect(irr([100, 50])).toBeNull();
+    expect(irr([-100, -50])).toBeNull();
+  });
+});
+
+describe("calculateProjection", () => {
+  it("pays the implementation fee up front and adds up each year", () => {
+    const projection = calculateProjection(defaultValues);
+    expect(projection.years).toHaveLength(5);
+    expect(projection.years[0].partners).toBe(5);
+    expect(projection.years[0].cumulativeCashFlow).toBeCloseTo(
+      projection.years[0].netCashFlow - projection.implementationFee,
+    );
+    expect(projection.paybackMonth).toBe(1);
+  });
+});
@@ -0,0 +1,138 @@
+import type { RoiInputs } from "./defaults";
+import { calculateLegacyCosts, calculatePlatformCosts } from "./engine";
+import { defaultPricingPlan, type PricingPlan } from "./pricing";
+
+export interface ProjectionOptions {
+  years: number;
+  discountRatePct: number;
+  partnerGrowthPct: number;
+}
+
+export const defaultProjectionOptions: ProjectionOptions = {
+  years: 5,
+  discountRatePct: 8,
+  partnerGrowthPct: 10,
+};
+
+export const projectionYearChoices = [3, 4, 5];
+
+export interface ProjectionYear {
+  year: number;
+  partners: number;
+  newPartners: number;
+  legacyCost: number;
+  platformCost: number;
+  costSaving: number;
+  revenueUplift: number;
+  netCashFlow: number;
+  cumulativeCashFlow: number;
+}
+
+export interface RoiProjection {
+  implementationFee: number;
+  years: ProjectionYear[];
+  // Months from go-live until cumulative cash flow turns positive
+  paybackMonth: number | null;
+  npv: number;
+  irr: number | null;
+}
+
+export const npv = (ratePct: number, cashFlows: number[]) =>
+  cashFlows.reduce(
+    (total, flow, period) => total + flow / Math.pow(1 + ratePct / 100, period),
+    0,
+  );
+
+// Bisection on NPV; returns a percentage, or null when NPV never changes sign
+export const irr = (cashFlows: number[]) => {
+  let low = -99;
+  let high = 10000;
+  let npvLow = npv(low, cashFlows);
+  if (npvLow * npv(high, cashFlows) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid, cashFlows);
+    if (Math.abs(npvMid) < 1e-6) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Projects yearly cash flows of moving to the platform versus staying on
+ * legacy integrations. Unlike `calculateBenefits`, build costs and onboarding
+ * revenue only apply to partners joining that year, the platform
+ * implementation fee is paid up front in year 0, and risk savings are counted
+ * once as part of the cost saving.
+ */
+export const calculateProjection = (
+  values: RoiInputs,
+  plan: PricingPlan = defaultPricingPlan,
+  options: ProjectionOptions = defaultProjectionOptions,
+): RoiProjection => {
+  const years: ProjectionYear[] = [];
+  let cumulativeCashFlow = -plan.implementationFee;
+  let previousPartners = 0;
+  let paybackMonth: number | null = cumulativeCashFlow >= 0 ? 0 : null;
+
+  for (let year = 1; year <= options.years; year++) {
+    const partners = Math.round(
+      values.num_partners *
+        Math.pow(1 + options.partnerGrowthPct / 100, year - 1),
+    );
+    const newPartners = Math.max(partners - previousPartners, 0);
+    const yearValues = { ...values, num_partners: partners };
+
+    const legacy = calculateLegacyCosts(yearValues);
+    const platform = calculatePlatformCosts(yearValues, plan);
+    // Integrations are built once per partner; maintenance keeps running
+    const legacyBuild = newPartners * values.int_build_cost_per_partner;
+    const legacyCost = legacy.total - legacy.build + legacyBuild;
+    const platformCost = platform.total;
+    const costSaving = legacyCost - platformCost;
+    const revenueUplift =
+      newPartners *
+      values.daily_revenue_per_partner *
+      (values.onboard_days_legacy - values.onboard_days_platform);
+    const netCashFlow = costSaving + revenueUplift;
+
+    const previousCumulative = cumulativeCashFlow;
+    cumulativeCashFlow += netCashFlow;
+    if (paybackMonth === null && cumulativeCashFlow >= 0) {
+      const monthsIntoYear = Math.ceil((-previousCumulative / netCashFlow) * 12);
+      paybackMonth = (year - 1) * 12 + Math.max(monthsIntoYear, 1);
+    }
+
+    years.push({
+      year,
+      partners,
+      newPartners,
+      legacyCost,
+      platformCost,
+      costSaving,
+      revenueUplift,
+      netCashFlow,
+      cumulativeCashFlow,
+    });
+    previousPartners = partners;
+  }
+
+  const cashFlows = [
+    -plan.implementationFee,
+    ...years.map((year) => year.netCashFlow),
+  ];
+
+  return {
+    implementationFee: plan.implementationFee,
+    years,
+    paybackMonth,
+    npv: npv(options.discountRatePct, cashFlows),
+    irr: irr(cashFlows),
+  };
+};
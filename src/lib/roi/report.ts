@@ -0,0 +1,215 @@
+import {
+  defaultCurrency,
+  exchangeRatesAsOf,
+  fromSgd,
+  type Currency,
+} from "./currency";
+import type { RoiInputs } from "./defaults";
+import type {
+  PartnerBreakdown,
+  RoiBenefits,
+  RoiMetricKey,
+  RoiResult,
+} from "./engine";
+import { fieldUnit, roiFields, type RoiField } from "./fields";
+import { metricExplanations } from "./metrics";
+import type { PricingPlan } from "./pricing";
+
+export interface ReportRow {
+  label: string;
+  value: number | string;
+  unit: string;
+  // Most decimal places shown in the PDF; the CSV keeps the value as is
+  decimals?: number;
+}
+
+export interface ReportSection {
+  title: string;
+  rows: ReportRow[];
+}
+
+export interface RoiReport {
+  title: string;
+  scenarioName: string;
+  currency: Currency;
+  generatedAt: Date;
+  sections: ReportSection[];
+  formulas: { title: string; formula: string; what: string }[];
+}
+
+interface RoiReportSource {
+  scenarioName: string;
+  inputs: RoiInputs;
+  plan: PricingPlan;
+  result: RoiResult;
+  currency?: Currency;
+  generatedAt?: Date;
+}
+
+// Per-partner figures when the partners were modelled one by one; shared
+// rows carry what belongs to no one partner
+const partnerBreakdownSection = (
+  breakdown: PartnerBreakdown,
+  money: (label: string, sgd: number) => ReportRow,
+): ReportSection => {
+  const metricRows = (name: string, benefits: RoiBenefits) =>
+    (Object.keys(metricExplanations) as RoiMetricKey[]).map((metric) =>
+      money(`${name}: ${metricExplanations[metric].title}`, benefits[metric]),
+    );
+
+  return {
+    title: "Per-Partner Breakdown (annual)",
+    rows: [
+      ...breakdown.partners.flatMap((row, index) => {
+        const name = row.partner.name || `Partner ${index + 1}`;
+        return [
+          {
+            label: `${name}: Transactions per year`,
+            value: row.annualTransactions,
+            unit: "",
+          },
+          ...metricRows(name, row),
+        ];
+      }),
+      ...metricRows("Shared", breakdown.shared),
+    ],
+  };
+};
+
+// Per-transaction amounts are fractions of a cent, so they keep more places
+const PER_TRANSACTION_DECIMALS = 4;
+
+// Everything the on-screen calculator used, laid out for PDF and CSV export
+export const buildRoiReport = ({
+  scenarioName,
+  inputs,
+  plan,
+  result,
+  currency = defaultCurrency,
+  generatedAt = new Date(),
+}: RoiReportSource): RoiReport => {
+  const money = (label: string, sgd: number, decimals = 2): ReportRow => ({
+    label,
+    value: Math.round(fromSgd(sgd, currency) * 10000) / 10000,
+    unit: currency.code,
+    decimals,
+  });
+  const input = (field: RoiField, value: number): ReportRow =>
+    field.kind === "currency"
+      ? money(
+          field.label,
+          value,
+          field.key === "api_fee_per_tx" ? PER_TRANSACTION_DECIMALS : 2,
+        )
+      : { label: field.label, value, unit: fieldUnit(field) };
+
+  return {
+    title: "DEX SG ROI Report",
+    scenarioName,
+    currency,
+    generatedAt,
+    sections: [
+      {
+        title: "Inputs",
+        rows: roiFields.map((field) => input(field, inputs[field.key])),
+      },
+      {
+        title: `Platform Pricing Assumptions (${plan.name} plan)`,
+        rows: [
+          money("Implementation fee (one-off)", plan.implementationFee),
+          money("Base subscription per year", plan.baseSubscription),
+          money("Fee per partner per year", plan.perPartnerFee),
+          ...plan.transactionFeeBands.map((band, index) =>
+            money(
+              band.upTo === null
+                ? index === 0
+                  ? "Fee per transaction"
+                  : `Fee per transaction above ${plan.transactionFeeBands[index - 1].upTo?.toLocaleString()} per year`
+                : `Fee per transaction up to ${band.upTo.toLocaleString()} per year`,
+              band.feePerTx,
+              PER_TRANSACTION_DECIMALS,
+            ),
+          ),
+          {
+            label: "Compliance cost reduction",
+            value: plan.complianceReduction * 100,
+            unit: "%",
+          },
+        ],
+      },
+      {
+        title: "Legacy Costs (annual)",
+        rows: [
+          money("Integration build", result.legacy.build),
+          money("Integration maintenance", result.legacy.maintenance),
+          money("API fees", result.legacy.apiFees),
+          money("Compliance", result.legacy.compliance),
+          money("Error cost", result.legacy.errorCost),
+          money("Total", result.legacy.total),
+        ],
+      },
+      {
+        title: "Platform Costs (annual)",
+        rows: [
+          money("Subscription", result.platform.subscription),
+          money("Transaction fees", result.platform.transactionFees),
+          money("Compliance", result.platform.compliance),
+          money("Error cost", result.platform.errorCost),
+          money("Total", result.platform.total),
+        ],
+      },
+      {
+        title: "Results",
+        rows: (Object.keys(metricExplanations) as RoiMetricKey[]).map(
+          (metric) => money(metricExplanations[metric].title, result[metric]),
+        ),
+      },
+      ...(result.partnerBreakdown
+        ? [partnerBreakdownSection(result.partnerBreakdown, money)]
+        : []),
+    ],
+    formulas: Object.values(metricExplanations).map(
+      ({ title, formula, what }) => ({ title, formula, what }),
+    ),
+  };
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Raw numbers, one row per line item; opens directly in Excel and Sheets
+export const reportToCsv = (report: RoiReport) => {
+  const rows: (string | number)[][] = [
+    ["Section", "Item", "Value", "Unit"],
+    ["Report", "Scenario", report.scenarioName, ""],
+    ["Report", "Generated", report.generatedAt.toISOString(), ""],
+    [
+      "Report",
+      `Exchange rate (${exchangeRatesAsOf})`,
+      report.currency.perSgd,
+      `${report.currency.code} per SGD`,
+    ],
+    ...report.sections.flatMap((section) =>
+      section.rows.map((row) => [section.title, row.label, row.value, row.unit]),
+    ),
+    ...report.formulas.map((formula) => [
+      "Formulas",
+      formula.title,
+      formula.formula,
+      "",
+    ]),
+  ];
+  // The byte order mark makes Excel read the file as UTF-8
+  return "\uFEFF" + rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+};
+
+export const reportFileName = (report: RoiReport, extension: string) => {
+  const slug = report.scenarioName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const date = report.generatedAt.toISOString().slice(0, 10);
+  return `dex-sg-roi-${slug || "scenario"}-${date}.${extension}`;
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { defaultValues } from "./defaults";
+import { calculateBenefits } from "./engine";
+import { getPricingPlan } from "./pricing";
+import { buildRoiReport } from "./report";
+import { formatReportRow } from "./reportPdf";
+
+const printedRows = (planId: string, title: string) => {
+  const plan = getPricingPlan(planId);
+  const report = buildRoiReport({
+    scenarioName: "Default",
+    inputs: defaultValues,
+    plan,
+    result: calculateBenefits(defaultValues, plan),
+  });
+  const section = report.sections.find((item) => item.title.startsWith(title));
+  return Object.fromEntries(
+    section!.rows.map((row) => [row.label, formatReportRow(row, "en-SG")]),
+  );
+};
+
+describe("formatReportRow", () => {
+  it("prints per-transaction fees to four decimal places", () => {
+    expect(printedRows("growth", "Platform Pricing")).toMatchObject({
+      "Fee per transaction up to 1,000,000 per year": "SGD 0.01",
+      "Fee per transaction above 1,000,000 per year": "SGD 0.008",
+      "Base subscription per year": "SGD 10,000",
+    });
+    expect(printedRows("enterprise", "Platform Pricing")).toMatchObject({
+      "Fee per transaction up to 10,000,000 per year": "SGD 0.005",
+      "Fee per transaction above 10,000,000 per year": "SGD 0.003",
+    });
+  });
+
+  it("keeps money to two places and units beside other inputs", () => {
+    expect(printedRows("growth", "Inputs")).toMatchObject({
+      "Legacy API Fee per Transaction": "SGD 0.05",
+      "Integration Cost per Partner": "SGD 15,000",
+      "Annual Maintenance": "20%",
+    });
+    expect(printedRows("growth", "Results")["Total Benefit"]).toBe(
+      "SGD 402,400",
+    );
+  });
+});
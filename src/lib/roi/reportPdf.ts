@@ -0,0 +1,116 @@
+import { isCurrencyCode } from "./currency";
+import type { ReportRow, RoiReport } from "./report";
+
+const PAGE_MARGIN = 20;
+const LINE_HEIGHT = 6;
+const BRAND_PURPLE: [number, number, number] = [127, 57, 251];
+
+// A row's value as printed in the PDF, e.g. "SGD 0.008" or "20%"
+export const formatReportRow = (row: ReportRow, locale: string) => {
+  if (typeof row.value === "string") return row.value;
+  const value = row.value.toLocaleString(locale, {
+    maximumFractionDigits: row.decimals ?? 2,
+  });
+  if (isCurrencyCode(row.unit)) return `${row.unit} ${value}`;
+  if (row.unit === "%") return `${value}%`;
+  return row.unit ? `${value} ${row.unit}` : value;
+};
+
+const loadImage = async (src: string) => {
+  const response = await fetch(src);
+  if (!response.ok) return null;
+  const blob = await response.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Lays the report out as an A4 PDF in the browser. jsPDF is loaded on demand
+ * so it only ships to visitors who export.
+ */
+export const createRoiReportPdf = async (
+  report: RoiReport,
+  logoSrc = "/logo-on-white-clearspace.png",
+) => {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const right = pageWidth - PAGE_MARGIN;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const logo = await loadImage(logoSrc).catch(() => null);
+  if (logo) {
+    doc.addImage(logo, "PNG", PAGE_MARGIN, y, 40, 23);
+    y += 31;
+  }
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(20);
+  doc.text(report.title, PAGE_MARGIN, y);
+  y += 8;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(
+    `Scenario: ${report.scenarioName}  ·  Generated ${report.generatedAt.toLocaleDateString(report.currency.locale)}  ·  Figures in ${report.currency.code}`,
+    PAGE_MARGIN,
+    y,
+  );
+  y += 10;
+
+  for (const section of report.sections) {
+    ensureSpace(LINE_HEIGHT * 3);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.setTextColor(...BRAND_PURPLE);
+    doc.text(section.title, PAGE_MARGIN, y);
+    doc.setTextColor(0, 0, 0);
+    y += LINE_HEIGHT + 1;
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    for (const row of section.rows) {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(row.label, PAGE_MARGIN, y);
+      doc.text(formatReportRow(row, report.currency.locale), right, y, { align: "right" });
+      y += LINE_HEIGHT;
+    }
+    y += 4;
+  }
+
+  ensureSpace(LINE_HEIGHT * 3);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.setTextColor(...BRAND_PURPLE);
+  doc.text("How the figures are calculated", PAGE_MARGIN, y);
+  doc.setTextColor(0, 0, 0);
+  y += LINE_HEIGHT + 1;
+
+  for (const formula of report.formulas) {
+    const description = doc.splitTextToSize(
+      formula.what,
+      pageWidth - PAGE_MARGIN * 2,
+    ) as string[];
+    ensureSpace(LINE_HEIGHT * (2 + description.length));
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.text(`${formula.title} = ${formula.formula}`, PAGE_MARGIN, y);
+    y += LINE_HEIGHT;
+    doc.setFont("helvetica", "normal");
+    doc.text(description, PAGE_MARGIN, y);
+    y += LINE_HEIGHT * description.length + 2;
+  }
+
+  return doc.output("blob");
+};
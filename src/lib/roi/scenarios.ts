@@ -0,0 +1,115 @@
+import {
+  scenarios,
+  type RoiInputKey,
+  type RoiInputs,
+  type ScenarioKey,
+  type ScenarioPresets,
+} from "./defaults";
+import { calculateBenefits, type RoiMetricKey, type RoiResult } from "./engine";
+import { metricExplanations } from "./metrics";
+import type { RoiPartner } from "./partners";
+import { defaultPricingPlan, getPricingPlan } from "./pricing";
+
+// A named set of inputs the visitor can edit and compare with others
+export interface RoiScenario {
+  id: string;
+  name: string;
+  inputs: RoiInputs;
+  // Partners modelled one by one, or null to use the averages in inputs.
+  // While set, inputs holds the table's equivalent averages.
+  partners: RoiPartner[] | null;
+  planId: string;
+  // The preset this scenario started from, if any
+  presetKey: ScenarioKey | null;
+}
+
+export const presetLabels: Record<ScenarioKey, string> = {
+  conservative: "Conservative",
+  default: "Default",
+  optimistic: "Optimistic",
+};
+
+export const createPresetScenarios = (
+  presets: ScenarioPresets = scenarios,
+): RoiScenario[] =>
+  (Object.keys(presets) as ScenarioKey[]).map((key) => ({
+    id: key,
+    name: presetLabels[key],
+    inputs: presets[key],
+    partners: null,
+    planId: defaultPricingPlan.id,
+    presetKey: key,
+  }));
+
+export const createScenarioId = () =>
+  `scenario-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const uniqueName = (base: string, existing: RoiScenario[]) => {
+  const names = new Set(existing.map((scenario) => scenario.name));
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base} ${n}`)) n++;
+  return `${base} ${n}`;
+};
+
+export const cloneScenario = (
+  source: RoiScenario,
+  existing: RoiScenario[],
+  name = `${source.name} copy`,
+): RoiScenario => ({
+  id: createScenarioId(),
+  name: uniqueName(name, existing),
+  inputs: { ...source.inputs },
+  partners: source.partners && [...source.partners],
+  planId: source.planId,
+  presetKey: null,
+});
+
+// Input keys where `inputs` differs from `reference`
+export const changedInputs = (inputs: RoiInputs, reference: RoiInputs) =>
+  (Object.keys(reference) as RoiInputKey[]).filter(
+    (key) => inputs[key] !== reference[key],
+  );
+
+export const isPresetEdited = (
+  scenario: RoiScenario,
+  presets: ScenarioPresets = scenarios,
+) =>
+  scenario.presetKey !== null &&
+  (changedInputs(scenario.inputs, presets[scenario.presetKey]).length > 0 ||
+    scenario.partners !== null ||
+    scenario.planId !== defaultPricingPlan.id);
+
+export interface ScenarioComparison {
+  scenario: RoiScenario;
+  result: RoiResult;
+  // Difference from the baseline scenario for each headline metric
+  deltas: Record<RoiMetricKey, number>;
+}
+
+export const compareScenarios = (
+  list: RoiScenario[],
+  baselineId: string,
+): ScenarioComparison[] => {
+  const results = list.map((scenario) => ({
+    scenario,
+    result: calculateBenefits(
+      scenario.inputs,
+      getPricingPlan(scenario.planId),
+      scenario.partners,
+    ),
+  }));
+  const baseline =
+    results.find(({ scenario }) => scenario.id === baselineId) ?? results[0];
+
+  return results.map(({ scenario, result }) => ({
+    scenario,
+    result,
+    deltas: Object.fromEntries(
+      (Object.keys(metricExplanations) as RoiMetricKey[]).map((metric) => [
+        metric,
+        baseline ? result[metric] - baseline.result[metric] : 0,
+      ]),
+    ) as Record<RoiMetricKey, number>,
+  }));
+};
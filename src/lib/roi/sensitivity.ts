@@ -0,0 +1,125 @@
+import type { RoiInputKey, RoiInputs } from "./defaults";
+import { calculateBenefits, type RoiMetricKey } from "./engine";
+import { roiFields, roiFieldsByKey } from "./fields";
+import { defaultPricingPlan, type PricingPlan } from "./pricing";
+
+export const sensitivityVariationChoices = [10, 20, 50];
+
+export interface SensitivityEntry {
+  key: RoiInputKey;
+  label: string;
+  lowInput: number;
+  highInput: number;
+  // Metric value with the driver at its low and high input
+  low: number;
+  high: number;
+  swing: number;
+}
+
+export interface SensitivityAnalysis {
+  metric: RoiMetricKey;
+  base: number;
+  entries: SensitivityEntry[];
+}
+
+// Moves a driver by `pct` percent of its value, kept inside its form bounds
+export const varyInput = (key: RoiInputKey, value: number, pct: number) => {
+  const field = roiFieldsByKey[key];
+  const varied = value * (1 + pct / 100);
+  const rounded = field.integer ? Math.round(varied) : varied;
+  return Math.min(field.max, Math.max(field.min, rounded));
+};
+
+const evaluate = (
+  values: RoiInputs,
+  plan: PricingPlan,
+  metric: RoiMetricKey,
+  changes: Partial<RoiInputs>,
+) => calculateBenefits({ ...values, ...changes }, plan)[metric];
+
+/**
+ * One-at-a-time sensitivity: each driver is moved down and up by
+ * `variationPct` while the others stay fixed, and drivers are ranked by how
+ * far the metric swings. This is the data behind a tornado chart.
+ */
+export const calculateSensitivity = (
+  values: RoiInputs,
+  plan: PricingPlan = defaultPricingPlan,
+  variationPct = 20,
+  metric: RoiMetricKey = "totalBenefit",
+): SensitivityAnalysis => {
+  const entries = roiFields.map(({ key, label }) => {
+    const lowInput = varyInput(key, values[key], -variationPct);
+    const highInput = varyInput(key, values[key], variationPct);
+    const low = evaluate(values, plan, metric, { [key]: lowInput });
+    const high = evaluate(values, plan, metric, { [key]: highInput });
+    return {
+      key,
+      label,
+      lowInput,
+      highInput,
+      low,
+      high,
+      swing: Math.abs(high - low),
+    };
+  });
+
+  return {
+    metric,
+    base: calculateBenefits(values, plan)[metric],
+    entries: entries.sort((a, b) => b.swing - a.swing),
+  };
+};
+
+export interface SensitivityGrid {
+  rowKey: RoiInputKey;
+  columnKey: RoiInputKey;
+  rowInputs: number[];
+  columnInputs: number[];
+  // cells[row][column]
+  cells: number[][];
+}
+
+// Evenly spaced inputs from -variationPct to +variationPct around the value
+export const sensitivitySteps = (
+  key: RoiInputKey,
+  value: number,
+  variationPct: number,
+  steps = 5,
+) => {
+  const inputs = Array.from({ length: steps }, (_, i) =>
+    varyInput(key, value, -variationPct + (2 * variationPct * i) / (steps - 1)),
+  );
+  return inputs.filter((input, i) => inputs.indexOf(input) === i);
+};
+
+export const calculateSensitivityGrid = (
+  values: RoiInputs,
+  rowKey: RoiInputKey,
+  columnKey: RoiInputKey,
+  plan: PricingPlan = defaultPricingPlan,
+  variationPct = 20,
+  metric: RoiMetricKey = "totalBenefit",
+): SensitivityGrid => {
+  const rowInputs = sensitivitySteps(rowKey, values[rowKey], variationPct);
+  const columnInputs = sensitivitySteps(
+    columnKey,
+    values[columnKey],
+    variationPct,
+  );
+
+  return {
+    rowKey,
+    columnKey,
+    rowInputs,
+    columnInputs,
+    cells: rowInputs.map((rowInput) =>
+      columnInputs.map((columnInput) =>
+        evaluate(values, plan, metric, {
+          [rowKey]: rowInput,
+          [columnKey]: columnInput,
+        }),
+      ),
+    ),
+  };
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { defaultValues, scenarios } from "./defaults";
+import {
+  clearCalculatorSessions,
+  loadCalculatorSession,
+  saveCalculatorSession,
+  SESSION_VERSION,
+  sessionStorageKey,
+  type CalculatorSession,
+} from "./session";
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+const session: CalculatorSession = {
+  scenarios: [
+    {
+      id: "mine",
+      name: "Mine",
+      inputs: { ...defaultValues, num_partners: 9, api_fee_per_tx: 1e-7 },
+      partners: null,
+      planId: "enterprise",
+      presetKey: "default",
+    },
+  ],
+  activeId: "mine",
+  currency: "MYR",
+  metric: "costSaving",
+  calculated: true,
+  savedAt: "2026-01-02T03:04:05.000Z",
+};
+
+// Writes a store by hand, as an older or newer calculator might have
+const storeWith = (stored: unknown) => {
+  const storage = memoryStorage();
+  storage.setItem(sessionStorageKey, JSON.stringify(stored));
+  return storage;
+};
+
+describe("calculator sessions", () => {
+  it("round-trips a session, including tiny amounts", () => {
+    const storage = memoryStorage();
+    saveCalculatorSession(storage, "home", session);
+    expect(loadCalculatorSession(storage, "home")).toEqual(session);
+    expect(loadCalculatorSession(storage, "dex-a")).toBeNull();
+  });
+
+  it("keeps each scope's session separately", () => {
+    const storage = memoryStorage();
+    saveCalculatorSession(storage, "home", session);
+    saveCalculatorSession(storage, "dex-a", { ...session, currency: "IDR" });
+    expect(loadCalculatorSession(storage, "home")?.currency).toBe("MYR");
+    expect(loadCalculatorSession(storage, "dex-a")?.currency).toBe("IDR");
+  });
+
+  it("fills missing and invalid values from the preset and defaults", () => {
+    const storage = storeWith({
+      v: SESSION_VERSION,
+      sessions: {
+        home: {
+          scenarios: [
+            {
+              id: "a",
+              name: "A",
+              presetKey: "optimistic",
+              planId: "no-such-plan",
+              inputs: { num_partners: -3, avg_tx_per_partner: 500 },
+            },
+            { name: "No id" },
+          ],
+          activeId: "gone",
+          currency: "XYZ",
+          metric: "nonsense",
+          savedAt: "yesterday",
+        },
+      },
+    });
+    const loaded = loadCalculatorSession(storage, "home");
+    expect(loaded?.scenarios).toHaveLength(1);
+    expect(loaded?.scenarios[0].inputs).toEqual({
+      ...scenarios.optimistic,
+      avg_tx_per_partner: 500,
+    });
+    expect(loaded?.scenarios[0].planId).toBe("growth");
+    expect(loaded).toMatchObject({
+      activeId: "a",
+      currency: "SGD",
+      metric: null,
+      calculated: false,
+      savedAt: new Date(0).toISOString(),
+    });
+  });
+
+  it("ignores a store from a newer version or that isn't JSON", () => {
+    expect(
+      loadCalculatorSession(
+        storeWith({ v: SESSION_VERSION + 1, sessions: { home: session } }),
+        "home",
+      ),
+    ).toBeNull();
+
+    const corrupt = memoryStorage();
+    corrupt.setItem(sessionStorageKey, "{not json");
+    expect(loadCalculatorSession(corrupt, "home")).toBeNull();
+  });
+
+  it("clears every scope", () => {
+    const storage = memoryStorage();
+    saveCalculatorSession(storage, "home", session);
+    saveCalculatorSession(storage, "dex-a", session);
+    clearCalculatorSessions(storage);
+    expect(storage.getItem(sessionStorageKey)).toBeNull();
+  });
+
+  it("doesn't throw when storage refuses access", () => {
+    const blocked = () => {
+      throw new DOMException("Blocked", "SecurityError");
+    };
+    const storage = { getItem: blocked, setItem: blocked, removeItem: blocked };
+    expect(loadCalculatorSession(storage, "home")).toBeNull();
+    expect(() => saveCalculatorSession(storage, "home", session)).not.toThrow();
+    expect(() => clearCalculatorSessions(storage)).not.toThrow();
+  });
+});
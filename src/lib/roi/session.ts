@@ -0,0 +1,206 @@
+import {
+  defaultCurrency,
+  formatPlainNumber,
+  isCurrencyCode,
+  type CurrencyCode,
+} from "./currency";
+import { scenarios, type RoiInputs, type ScenarioPresets } from "./defaults";
+import type { RoiMetricKey } from "./engine";
+import { parseRoiInput, roiFields } from "./fields";
+import { metricExplanations } from "./metrics";
+import {
+  createPartnerId,
+  maxPartnerRows,
+  partnerColumns,
+  partnerEquivalentInputs,
+  type RoiPartner,
+} from "./partners";
+import { defaultPricingPlan, pricingPlans } from "./pricing";
+import type { RoiScenario } from "./scenarios";
+
+type SessionStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+// Bump when the stored shape changes, and add a migration from the previous
+// version below so returning visitors keep their work. Inputs added to
+// defaultValues don't need one: missing inputs are filled from the preset.
+export const SESSION_VERSION = 1;
+
+export const sessionStorageKey = "dexsg.roi.sessions";
+
+type Migration = (stored: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] upgrades a version n store to version n + 1
+const migrations: Record<number, Migration> = {};
+
+// Everything needed to put the calculator back as the visitor left it
+export interface CalculatorSession {
+  scenarios: RoiScenario[];
+  activeId: string;
+  currency: CurrencyCode;
+  metric: RoiMetricKey | null;
+  // Whether results were showing, so they come back too
+  calculated: boolean;
+  savedAt: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const hasKey = <K extends string>(
+  record: Record<K, unknown>,
+  value: unknown,
+): value is K =>
+  typeof value === "string" &&
+  Object.prototype.hasOwnProperty.call(record, value);
+
+// Stored values are checked like typed ones; anything missing or out of
+// range takes the preset's value
+const readInputs = (stored: unknown, preset: RoiInputs): RoiInputs => {
+  const inputs = { ...preset };
+  if (!isRecord(stored)) return inputs;
+  for (const field of roiFields) {
+    const value = stored[field.key];
+    if (typeof value !== "number") continue;
+    const parsed = parseRoiInput(field, formatPlainNumber(value));
+    if (parsed.ok) inputs[field.key] = parsed.value;
+  }
+  return inputs;
+};
+
+// Rows that no longer pass the column checks are dropped
+const readPartners = (stored: unknown): RoiPartner[] | null => {
+  if (!Array.isArray(stored)) return null;
+  const partners = stored.slice(0, maxPartnerRows).flatMap((row) => {
+    if (!isRecord(row)) return [];
+    const partner: RoiPartner = {
+      id: typeof row.id === "string" ? row.id : createPartnerId(),
+      name: typeof row.name === "string" ? row.name : "",
+      monthlyTransactions: 0,
+      buildCost: 0,
+      dailyRevenue: 0,
+      onboardDaysLegacy: 0,
+      onboardDaysPlatform: 0,
+    };
+    for (const { key, field } of partnerColumns) {
+      const value = row[key];
+      const parsed = parseRoiInput(
+        field,
+        typeof value === "number"
+          ? formatPlainNumber(value)
+          : String(value ?? ""),
+      );
+      if (!parsed.ok) return [];
+      partner[key] = parsed.value;
+    }
+    return [partner];
+  });
+  return partners.length > 0 ? partners : null;
+};
+
+const readScenario = (
+  stored: unknown,
+  presets: ScenarioPresets,
+): RoiScenario | null => {
+  if (!isRecord(stored)) return null;
+  const { id, name, presetKey, planId } = stored;
+  if (typeof id !== "string" || typeof name !== "string") return null;
+
+  const key = hasKey(presets, presetKey) ? presetKey : null;
+  const partners = readPartners(stored.partners);
+  const inputs = readInputs(stored.inputs, presets[key ?? "default"]);
+  return {
+    id,
+    name,
+    inputs: partners ? partnerEquivalentInputs(inputs, partners) : inputs,
+    partners,
+    planId:
+      typeof planId === "string" &&
+      pricingPlans.some((plan) => plan.id === planId)
+        ? planId
+        : defaultPricingPlan.id,
+    presetKey: key,
+  };
+};
+
+const readStore = (storage: SessionStorage): Record<string, unknown> => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(storage.getItem(sessionStorageKey) ?? "null");
+  } catch {
+    return {};
+  }
+  if (!isRecord(stored) || typeof stored.v !== "number") return {};
+  // A store written by a newer calculator can't be read safely
+  if (stored.v > SESSION_VERSION) return {};
+
+  let upgraded = stored;
+  for (let v = stored.v; v < SESSION_VERSION; v++) {
+    upgraded = migrations[v]?.(upgraded) ?? upgraded;
+  }
+  return isRecord(upgraded.sessions) ? upgraded.sessions : {};
+};
+
+/**
+ * The session saved for one calculator, e.g. the one on a Dex's page, or
+ * null when there is none or it can't be read. Scenarios that can't be read
+ * are dropped; the rest are checked like values typed into the form.
+ */
+export const loadCalculatorSession = (
+  storage: SessionStorage,
+  scope: string,
+  presets: ScenarioPresets = scenarios,
+): CalculatorSession | null => {
+  const stored = readStore(storage)[scope];
+  if (!isRecord(stored) || !Array.isArray(stored.scenarios)) return null;
+
+  const list = stored.scenarios
+    .map((scenario) => readScenario(scenario, presets))
+    .filter((scenario): scenario is RoiScenario => scenario !== null);
+  if (list.length === 0) return null;
+
+  const { activeId, currency, metric, calculated, savedAt } = stored;
+  return {
+    scenarios: list,
+    activeId: list.some((scenario) => scenario.id === activeId)
+      ? (activeId as string)
+      : list[0].id,
+    currency:
+      typeof currency === "string" && isCurrencyCode(currency)
+        ? currency
+        : defaultCurrency.code,
+    metric: hasKey(metricExplanations, metric) ? metric : null,
+    calculated: calculated === true,
+    savedAt:
+      typeof savedAt === "string" && !Number.isNaN(Date.parse(savedAt))
+        ? savedAt
+        : new Date(0).toISOString(),
+  };
+};
+
+// Storage may be full or blocked; the calculator works the same without it
+export const saveCalculatorSession = (
+  storage: SessionStorage,
+  scope: string,
+  session: CalculatorSession,
+) => {
+  try {
+    storage.setItem(
+      sessionStorageKey,
+      JSON.stringify({
+        v: SESSION_VERSION,
+        sessions: { ...readStore(storage), [scope]: session },
+      }),
+    );
+  } catch {
+    // Nothing to do; the session just isn't kept
+  }
+};
+
+// Forgets every calculator's session, not only the one on screen
+export const clearCalculatorSessions = (storage: SessionStorage) => {
+  try {
+    storage.removeItem(sessionStorageKey);
+  } catch {
+    // Blocked storage holds nothing to clear
+  }
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { defaultValues } from "./defaults";
+import { calculateBenefits } from "./engine";
+import { findBreakEven, findNegativeDrivers, solveForTarget } from "./solver";
+
+describe("solveForTarget", () => {
+  it("finds the fewest whole partners that reach a target", () => {
+    const solved = solveForTarget(defaultValues, {
+      metric: "totalBenefit",
+      target: 500_000,
+      driver: "num_partners",
+    });
+    expect(solved).toEqual({ status: "solved", value: 7, achieved: 555_360 });
+    expect(
+      calculateBenefits({ ...defaultValues, num_partners: 6 }).totalBenefit,
+    ).toBeLessThan(500_000);
+  });
+
+  it("narrows a continuous driver to the crossing", () => {
+    const solved = solveForTarget(defaultValues, {
+      metric: "totalBenefit",
+      target: 500_000,
+      driver: "int_build_cost_per_partner",
+      min: 0,
+      max: 50_000,
+    });
+    expect(solved.status).toBe("solved");
+    if (solved.status !== "solved") return;
+    expect(solved.value).toBeCloseTo(31_266.67, 1);
+    expect(solved.achieved).toBeCloseTo(500_000);
+  });
+
+  it("takes the largest value when the metric falls as the driver grows", () => {
+    const solved = solveForTarget(defaultValues, {
+      metric: "totalBenefit",
+      target: 400_000,
+      driver: "onboard_days_platform",
+    });
+    expect(solved.status).toBe("solved");
+    if (solved.status !== "solved") return;
+    expect(solved.value).toBe(5);
+    expect(solved.achieved).toBeGreaterThanOrEqual(400_000);
+  });
+
+  it("reports the best reachable value when the target is out of range", () => {
+    const solved = solveForTarget(defaultValues, {
+      metric: "riskSaving",
+      target: 1e9,
+      driver: "num_partners",
+      min: 1,
+      max: 20,
+    });
+    expect(solved).toMatchObject({
+      status: "infeasible",
+      best: 90_000,
+      bestValue: 20,
+    });
+  });
+});
+
+describe("findBreakEven", () => {
+  it("is reached at the lowest bound when the defaults already pay off", () => {
+    const breakEven = findBreakEven(defaultValues);
+    expect(breakEven.partners).toMatchObject({ status: "solved", value: 1 });
+    expect(breakEven.transactions).toMatchObject({
+      status: "solved",
+      value: 0,
+    });
+  });
+});
+
+describe("findNegativeDrivers", () => {
+  it("names each driver that adds nothing by key and reason", () => {
+    const drivers = findNegativeDrivers({
+      ...defaultValues,
+      onboard_days_platform: defaultValues.onboard_days_legacy,
+      error_rate_platform: defaultValues.error_rate_legacy,
+    });
+    expect(drivers).toEqual([
+      {
+        key: "onboardingTime",
+        impact: 0,
+        reason: "onboardingNotFaster",
+        amounts: {},
+      },
+      {
+        key: "errorRates",
+        impact: 0,
+        reason: "errorRateNotLower",
+        amounts: {},
+      },
+    ]);
+  });
+});
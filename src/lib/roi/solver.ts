@@ -0,0 +1,167 @@
+import type { RoiInputKey, RoiInputs } from "./defaults";
+import { calculateBenefits, type RoiMetricKey } from "./engine";
+import { roiFieldsByKey } from "./fields";
+import type { RoiPartner } from "./partners";
+import { defaultPricingPlan, type PricingPlan } from "./pricing";
+
+export interface SolveRequest {
+  metric: RoiMetricKey;
+  target: number;
+  driver: RoiInputKey;
+  // Defaults to the driver's form bounds
+  min?: number;
+  max?: number;
+}
+
+export type SolveResult =
+  | { status: "solved"; value: number; achieved: number }
+  | { status: "infeasible"; best: number; bestValue: number };
+
+const SAMPLES = 200;
+const BISECTIONS = 60;
+
+/**
+ * Finds the driver value at which `metric` first reaches `target`, holding
+ * every other input fixed. Benefits usually grow with a driver, so the
+ * smallest such value is returned; when the metric falls as the driver grows
+ * the largest one is returned instead. With partners modelled one by one,
+ * the inputs their table supplies are fixed and can't be solved for.
+ */
+export const solveForTarget = (
+  values: RoiInputs,
+  request: SolveRequest,
+  plan: PricingPlan = defaultPricingPlan,
+  partners: RoiPartner[] | null = null,
+): SolveResult => {
+  const field = roiFieldsByKey[request.driver];
+  const min = request.min ?? field.min;
+  const max = request.max ?? field.max;
+  const evaluate = (x: number) =>
+    calculateBenefits({ ...values, [request.driver]: x }, plan, partners)[
+      request.metric
+    ];
+
+  const xs = Array.from(
+    { length: SAMPLES + 1 },
+    (_, i) => min + ((max - min) * i) / SAMPLES,
+  );
+  const ys = xs.map(evaluate);
+  const increasing = ys[SAMPLES] >= ys[0];
+  const order = increasing ? xs.map((_, i) => i) : xs.map((_, i) => SAMPLES - i);
+
+  const hit = order.findIndex((i) => ys[i] >= request.target);
+  if (hit === -1) {
+    const bestIndex = ys.indexOf(Math.max(...ys));
+    return {
+      status: "infeasible",
+      best: ys[bestIndex],
+      bestValue: xs[bestIndex],
+    };
+  }
+
+  let value = xs[order[hit]];
+  if (hit > 0) {
+    // Narrow the crossing between the last miss and the first hit
+    let miss = xs[order[hit - 1]];
+    let reach = value;
+    for (let i = 0; i < BISECTIONS; i++) {
+      const mid = (miss + reach) / 2;
+      if (evaluate(mid) >= request.target) reach = mid;
+      else miss = mid;
+    }
+    value = reach;
+  }
+
+  if (field.integer) {
+    value = increasing ? Math.ceil(value - 1e-9) : Math.floor(value + 1e-9);
+  }
+  value = Math.min(max, Math.max(min, value));
+  return { status: "solved", value, achieved: evaluate(value) };
+};
+
+export interface BreakEven {
+  partners: SolveResult;
+  transactions: SolveResult;
+}
+
+// Partner count and monthly volume at which total benefit stops being negative
+export const findBreakEven = (
+  values: RoiInputs,
+  plan: PricingPlan = defaultPricingPlan,
+): BreakEven => ({
+  partners: solveForTarget(
+    values,
+    { metric: "totalBenefit", target: 0, driver: "num_partners" },
+    plan,
+  ),
+  transactions: solveForTarget(
+    values,
+    { metric: "totalBenefit", target: 0, driver: "avg_tx_per_partner" },
+    plan,
+  ),
+});
+
+export type BenefitDriverKey =
+  | "platformFees"
+  | "onboardingTime"
+  | "errorRates"
+  | "compliance";
+
+export type BenefitDriverReason =
+  | "feesExceedLegacySpend"
+  | "onboardingNotFaster"
+  | "noDailyRevenue"
+  | "errorRateNotLower"
+  | "noComplianceSpend";
+
+export interface BenefitDriver {
+  key: BenefitDriverKey;
+  impact: number;
+  // Identifies the explanation so it can be shown in other languages, with
+  // the SGD amounts it quotes
+  reason: BenefitDriverReason;
+  amounts: Record<string, number>;
+}
+
+// Components of the total benefit that are zero or negative, worst first
+export const findNegativeDrivers = (
+  values: RoiInputs,
+  plan: PricingPlan = defaultPricingPlan,
+): BenefitDriver[] => {
+  const { legacy, platform, revenueSaving, riskSaving, onboardingDaysSaved } =
+    calculateBenefits(values, plan);
+  const legacyIntegration = legacy.build + legacy.maintenance + legacy.apiFees;
+  const platformFees = platform.subscription + platform.transactionFees;
+
+  const drivers: BenefitDriver[] = [
+    {
+      key: "platformFees",
+      impact: legacyIntegration - platformFees,
+      reason: "feesExceedLegacySpend",
+      amounts: { platformFees, legacySpend: legacyIntegration },
+    },
+    {
+      key: "onboardingTime",
+      impact: revenueSaving,
+      reason:
+        onboardingDaysSaved <= 0 ? "onboardingNotFaster" : "noDailyRevenue",
+      amounts: {},
+    },
+    {
+      key: "errorRates",
+      impact: riskSaving,
+      reason: "errorRateNotLower",
+      amounts: {},
+    },
+    {
+      key: "compliance",
+      impact: legacy.compliance - platform.compliance,
+      reason: "noComplianceSpend",
+      amounts: {},
+    },
+  ];
+
+  return drivers
+    .filter((driver) => driver.impact <= 0)
+    .sort((a, b) => a.impact - b.impact);
+};
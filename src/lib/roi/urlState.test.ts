@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { defaultValues } from "./defaults";
+import { createPartner } from "./partners";
+import {
+  decodeCalculatorState,
+  encodeCalculatorState,
+  type SharedCalculatorState,
+} from "./urlState";
+
+const baseState: SharedCalculatorState = {
+  presetKey: "default",
+  name: null,
+  inputs: defaultValues,
+  partners: null,
+  planId: "growth",
+  metric: null,
+  currency: "SGD",
+};
+
+const roundTrip = (state: SharedCalculatorState) =>
+  decodeCalculatorState(encodeCalculatorState(state));
+
+describe("encodeCalculatorState", () => {
+  it("writes only what differs from the preset", () => {
+    const params = encodeCalculatorState({
+      ...baseState,
+      inputs: { ...defaultValues, num_partners: 12 },
+      metric: "costSaving",
+    });
+    expect(params.toString()).toBe(
+      "v=1&scenario=default&metric=costSaving&num_partners=12",
+    );
+  });
+
+  it("never writes amounts in exponent notation", () => {
+    const params = encodeCalculatorState({
+      ...baseState,
+      inputs: { ...defaultValues, api_fee_per_tx: 1e-7 },
+    });
+    expect(params.get("api_fee_per_tx")).toBe("0.0000001");
+  });
+});
+
+describe("decodeCalculatorState", () => {
+  it("ignores a query string without calculator state", () => {
+    expect(decodeCalculatorState(new URLSearchParams("utm=x"))).toBeNull();
+  });
+
+  it("round-trips inputs, plan, metric, currency and name", () => {
+    const state: SharedCalculatorState = {
+      ...baseState,
+      presetKey: "optimistic",
+      name: "Acme",
+      inputs: { ...defaultValues, api_fee_per_tx: 1e-7, int_maint_pct: 12.5 },
+      planId: "enterprise",
+      metric: "riskSaving",
+      currency: "MYR",
+    };
+    expect(roundTrip(state)).toEqual({ state, warnings: [] });
+  });
+
+  it("round-trips tiny amounts in the partner table", () => {
+    const partner = {
+      ...createPartner(defaultValues, "Acme"),
+      buildCost: 2e-7,
+    };
+    const decoded = roundTrip({ ...baseState, partners: [partner] });
+    expect(decoded?.warnings).toEqual([]);
+    expect(decoded?.state.partners?.[0]).toMatchObject({
+      name: "Acme",
+      buildCost: 2e-7,
+    });
+  });
+
+  it("falls back to the preset for invalid values and says why", () => {
+    const decoded = decodeCalculatorState(
+      new URLSearchParams(
+        "v=1&scenario=nope&num_partners=-3&plan=gold&currency=XYZ",
+      ),
+    );
+    expect(decoded?.state).toEqual(baseState);
+    expect(decoded?.warnings).toEqual([
+      { type: "unknown", param: "scenario", value: "nope" },
+      {
+        type: "input",
+        key: "num_partners",
+        issue: { type: "range", min: 1, max: 1000 },
+      },
+      { type: "unknown", param: "plan", value: "gold" },
+      { type: "unknown", param: "currency", value: "XYZ" },
+    ]);
+  });
+
+  it("skips partner rows that don't pass the column checks", () => {
+    const decoded = decodeCalculatorState(
+      new URLSearchParams({
+        v: "1",
+        partners: JSON.stringify([
+          ["", 1000, 15000, 2000, 30, 5],
+          ["Bad", -1, 15000, 2000, 30, 5],
+        ]),
+      }),
+    );
+    expect(decoded?.state.partners).toEqual([
+      expect.objectContaining({ name: "", monthlyTransactions: 1000 }),
+    ]);
+    expect(decoded?.warnings).toEqual([
+      {
+        type: "partnerSkipped",
+        row: 2,
+        problems: [
+          {
+            column: "monthlyTransactions",
+            issue: { type: "range", min: 0, max: 10_000_000 },
+          },
+        ],
+      },
+    ]);
+  });
+});
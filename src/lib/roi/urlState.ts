@@ -0,0 +1,247 @@
+import {
+  defaultCurrency,
+  formatPlainNumber,
+  isCurrencyCode,
+  type CurrencyCode,
+} from "./currency";
+import {
+  scenarios,
+  type RoiInputKey,
+  type RoiInputs,
+  type ScenarioKey,
+  type ScenarioPresets,
+} from "./defaults";
+import type { RoiMetricKey } from "./engine";
+import { parseRoiInput, roiFields, type RoiInputIssue } from "./fields";
+import { metricExplanations } from "./metrics";
+import {
+  createPartnerId,
+  maxPartnerRows,
+  partnerColumns,
+  partnerEquivalentInputs,
+  partnerTableInputs,
+  type RoiPartner,
+  type RoiPartnerKey,
+} from "./partners";
+import { defaultPricingPlan, pricingPlans } from "./pricing";
+
+// Bump when a parameter is renamed or its meaning changes, and add a
+// migration from the previous version below so existing links still open.
+export const URL_STATE_VERSION = 1;
+
+type Migration = (params: URLSearchParams) => URLSearchParams;
+
+// migrations[n] upgrades version n parameters to version n + 1
+const migrations: Record<number, Migration> = {};
+
+// Calculator state that can be shared through a link
+export interface SharedCalculatorState {
+  presetKey: ScenarioKey;
+  name: string | null;
+  inputs: RoiInputs;
+  partners: RoiPartner[] | null;
+  planId: string;
+  metric: RoiMetricKey | null;
+  // Display currency only; amounts in links are always SGD
+  currency: CurrencyCode;
+}
+
+// Why part of a link was ignored. Partner rows count from 1.
+export type SharedLinkWarning =
+  | { type: "newerVersion" }
+  | {
+      type: "unknown";
+      param: "scenario" | "plan" | "metric" | "currency";
+      value: string;
+    }
+  | { type: "input"; key: RoiInputKey; issue: RoiInputIssue }
+  | { type: "partnersUnreadable" }
+  | { type: "tooManyPartners"; max: number }
+  | {
+      type: "partnerSkipped";
+      row: number;
+      problems: { column: RoiPartnerKey; issue: RoiInputIssue }[];
+    };
+
+export interface DecodedCalculatorState {
+  state: SharedCalculatorState;
+  // Parameters that were ignored because they were invalid
+  warnings: SharedLinkWarning[];
+}
+
+const hasKey = (record: object, value: string | null) =>
+  value !== null && Object.prototype.hasOwnProperty.call(record, value);
+
+const isPresetKey = (value: string | null): value is ScenarioKey =>
+  hasKey(scenarios, value);
+
+const isMetricKey = (value: string | null): value is RoiMetricKey =>
+  hasKey(metricExplanations, value);
+
+// Partner rows travel as a JSON list of [name, ...columns]
+const encodePartners = (partners: RoiPartner[]) =>
+  JSON.stringify(
+    partners.map((partner) => [
+      partner.name,
+      ...partnerColumns.map(({ key }) => partner[key]),
+    ]),
+  );
+
+const decodePartners = (raw: string, warnings: SharedLinkWarning[]) => {
+  let rows: unknown;
+  try {
+    rows = JSON.parse(raw);
+  } catch {
+    rows = null;
+  }
+  if (!Array.isArray(rows) || rows.length === 0) {
+    warnings.push({ type: "partnersUnreadable" });
+    return null;
+  }
+  if (rows.length > maxPartnerRows) {
+    warnings.push({ type: "tooManyPartners", max: maxPartnerRows });
+  }
+
+  const partners: RoiPartner[] = [];
+  rows.slice(0, maxPartnerRows).forEach((row, index) => {
+    const cells = Array.isArray(row) ? row : [];
+    const partner: RoiPartner = {
+      id: createPartnerId(),
+      // Unnamed rows are named on screen, in the visitor's language
+      name: String(cells[0] ?? "").trim(),
+      monthlyTransactions: 0,
+      buildCost: 0,
+      dailyRevenue: 0,
+      onboardDaysLegacy: 0,
+      onboardDaysPlatform: 0,
+    };
+    const problems = partnerColumns.flatMap(({ key, field }, column) => {
+      const cell = cells[column + 1];
+      const parsed = parseRoiInput(
+        field,
+        typeof cell === "number" ? formatPlainNumber(cell) : String(cell ?? ""),
+      );
+      if (parsed.ok) partner[key] = parsed.value;
+      return parsed.ok ? [] : [{ column: key, issue: parsed.issue }];
+    });
+    if (problems.length > 0) {
+      warnings.push({ type: "partnerSkipped", row: index + 1, problems });
+    } else {
+      partners.push(partner);
+    }
+  });
+  return partners.length > 0 ? partners : null;
+};
+
+// Only inputs that differ from the preset are written, to keep links short.
+// With a partner table, the rows replace the inputs they average.
+export const encodeCalculatorState = (
+  state: SharedCalculatorState,
+  presets: ScenarioPresets = scenarios,
+) => {
+  const params = new URLSearchParams();
+  params.set("v", String(URL_STATE_VERSION));
+  params.set("scenario", state.presetKey);
+  if (state.name) params.set("name", state.name);
+  if (state.planId !== defaultPricingPlan.id) params.set("plan", state.planId);
+  if (state.metric) params.set("metric", state.metric);
+  if (state.currency !== defaultCurrency.code) {
+    params.set("currency", state.currency);
+  }
+
+  const preset = presets[state.presetKey];
+  for (const { key } of roiFields) {
+    if (state.partners && partnerTableInputs.includes(key)) continue;
+    if (state.inputs[key] !== preset[key]) {
+      params.set(key, formatPlainNumber(state.inputs[key]));
+    }
+  }
+  if (state.partners) params.set("partners", encodePartners(state.partners));
+  return params;
+};
+
+/**
+ * Reads calculator state from a query string. Returns null when the link
+ * carries no calculator state. Invalid values fall back to the preset and are
+ * reported in `warnings` rather than failing the whole link.
+ */
+export const decodeCalculatorState = (
+  search: URLSearchParams,
+  presets: ScenarioPresets = scenarios,
+): DecodedCalculatorState | null => {
+  const version = Number(search.get("v"));
+  if (!search.has("v") || !Number.isInteger(version) || version < 1) {
+    return null;
+  }
+
+  const warnings: SharedLinkWarning[] = [];
+  let params = new URLSearchParams(search);
+  if (version > URL_STATE_VERSION) {
+    warnings.push({ type: "newerVersion" });
+  }
+  for (let v = version; v < URL_STATE_VERSION; v++) {
+    params = migrations[v]?.(params) ?? params;
+  }
+
+  const scenarioParam = params.get("scenario");
+  const presetKey = isPresetKey(scenarioParam) ? scenarioParam : "default";
+  if (scenarioParam !== null && !isPresetKey(scenarioParam)) {
+    warnings.push({ type: "unknown", param: "scenario", value: scenarioParam });
+  }
+
+  let inputs: RoiInputs = { ...presets[presetKey] };
+  for (const field of roiFields) {
+    const raw = params.get(field.key);
+    if (raw === null) continue;
+    const parsed = parseRoiInput(field, raw);
+    if (parsed.ok) {
+      inputs[field.key] = parsed.value;
+    } else {
+      warnings.push({ type: "input", key: field.key, issue: parsed.issue });
+    }
+  }
+
+  const partnersParam = params.get("partners");
+  const partners =
+    partnersParam === null ? null : decodePartners(partnersParam, warnings);
+  if (partners) inputs = partnerEquivalentInputs(inputs, partners);
+
+  const planParam = params.get("plan");
+  const planId =
+    planParam && pricingPlans.some((plan) => plan.id === planParam)
+      ? planParam
+      : defaultPricingPlan.id;
+  if (planParam && planId !== planParam) {
+    warnings.push({ type: "unknown", param: "plan", value: planParam });
+  }
+
+  const metricParam = params.get("metric");
+  if (metricParam !== null && !isMetricKey(metricParam)) {
+    warnings.push({ type: "unknown", param: "metric", value: metricParam });
+  }
+
+  const currencyParam = params.get("currency");
+  if (currencyParam !== null && !isCurrencyCode(currencyParam)) {
+    warnings.push({
+      type: "unknown",
+      param: "currency",
+      value: currencyParam,
+    });
+  }
+
+  return {
+    state: {
+      presetKey,
+      name: params.get("name")?.trim() || null,
+      inputs,
+      partners,
+      planId,
+      metric: isMetricKey(metricParam) ? metricParam : null,
+      currency:
+        currencyParam !== null && isCurrencyCode(currencyParam)
+          ? currencyParam
+          : defaultCurrency.code,
+    },
+    warnings,
+  };
+};
@@ -0,0 +1,116 @@
+import { matchPath } from "react-router-dom";
+
+export type SiteRouteId =
+  | "home"
+  | "dexes"
+  | "dex"
+  | "partners"
+  | "partner"
+  | "certifications"
+  | "certification"
+  | "services"
+  | "about"
+  | "support"
+  | "resources"
+  | "terms"
+  | "privacy"
+  | "newsletterConfirm"
+  | "newsletterUnsubscribe";
+
+export interface SiteRoute {
+  path: string;
+  title: string;
+  // Breadcrumbs are built by walking up this chain
+  parent: SiteRouteId | null;
+}
+
+export const siteRoutes: Record<SiteRouteId, SiteRoute> = {
+  home: { path: "/", title: "Home", parent: null },
+  dexes: { path: "/dexes", title: "Our Dexes", parent: "home" },
+  dex: { path: "/dexes/:slug", title: "Dex", parent: "dexes" },
+  partners: { path: "/partners", title: "Partners", parent: "home" },
+  partner: { path: "/partners/:slug", title: "Partner", parent: "partners" },
+  certifications: {
+    path: "/certifications",
+    title: "Certifications",
+    parent: "home",
+  },
+  certification: {
+    path: "/certifications/:slug",
+    title: "Certification",
+    parent: "certifications",
+  },
+  services: { path: "/services", title: "Services", parent: "home" },
+  about: { path: "/about", title: "About Us", parent: "home" },
+  support: { path: "/support", title: "Support", parent: "home" },
+  resources: { path: "/resources", title: "Resources", parent: "home" },
+  terms: { path: "/terms", title: "Terms & Conditions", parent: "home" },
+  privacy: { path: "/privacy", title: "Privacy Policy", parent: "home" },
+  newsletterConfirm: {
+    path: "/newsletter/confirm",
+    title: "Confirm Subscription",
+    parent: "home",
+  },
+  newsletterUnsubscribe: {
+    path: "/newsletter/unsubscribe",
+    title: "Unsubscribe",
+    parent: "home",
+  },
+};
+
+export const dexPath = (slug: string) => `${siteRoutes.dexes.path}/${slug}`;
+
+export const partnerPath = (slug: string) =>
+  `${siteRoutes.partners.path}/${slug}`;
+
+export const certificationPath = (slug: string) =>
+  `${siteRoutes.certifications.path}/${slug}`;
+
+// "/" only matches itself; every other path also matches its children
+export const isPathActive = (pathname: string, path: string) =>
+  path === "/"
+    ? pathname === "/"
+    : pathname === path || pathname.startsWith(`${path}/`);
+
+export const matchSiteRoute = (pathname: string) => {
+  const id = (Object.keys(siteRoutes) as SiteRouteId[]).find(
+    (key) => matchPath(siteRoutes[key].path, pathname) !== null,
+  );
+  return id ?? null;
+};
+
+export interface RouteCrumb {
+  label: string;
+  // Omitted for the current page
+  to?: string;
+}
+
+// Trail from Home down to the page at pathname. currentTitle replaces the
+// generic title of the last entry, e.g. a Dex's name on /dexes/:slug;
+// routeTitle supplies the others, e.g. in the visitor's language.
+export const routeBreadcrumbs = (
+  pathname: string,
+  currentTitle?: string,
+  routeTitle: (id: SiteRouteId) => string = (id) => siteRoutes[id].title,
+): RouteCrumb[] => {
+  const id = matchSiteRoute(pathname);
+  if (!id) {
+    return [
+      { label: routeTitle("home"), to: siteRoutes.home.path },
+      { label: currentTitle ?? "Not found" },
+    ];
+  }
+
+  const trail: RouteCrumb[] = [];
+  let current: SiteRouteId | null = id;
+  while (current) {
+    const route: SiteRoute = siteRoutes[current];
+    trail.unshift(
+      current === id
+        ? { label: currentTitle ?? routeTitle(current) }
+        : { label: routeTitle(current), to: route.path },
+    );
+    current = route.parent;
+  }
+  return trail;
+};
@@ -0,0 +1,203 @@
+import {
+  certifications,
+  localizeCertification,
+} from "../content/certifications";
+import { dexes, localizeDex } from "../content/dexes";
+import { getInfoPage, infoPageIds } from "../content/pages";
+import { localizePartner, partners } from "../content/partners";
+import type { Locale, Translator } from "./i18n";
+import { metricExplanations } from "./roi";
+import {
+  certificationPath,
+  dexPath,
+  partnerPath,
+  siteRoutes,
+} from "./routes";
+
+export interface SearchDocument {
+  id: string;
+  // Shown as a small label next to the result, e.g. "HealthDex · Use case"
+  section: string;
+  title: string;
+  body: string;
+  // Where the result jumps to. Calculator metrics have no page of their own
+  // and open on the current Dex, so they only carry an anchor.
+  path: string | null;
+  anchor?: string;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  excerpt: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+type MetricKey = keyof typeof metricExplanations;
+
+// Everything is indexed in the visitor's language, so results match what
+// the pages show
+export const buildSearchIndex = (
+  t: Translator["t"],
+  locale: Locale,
+): SearchDocument[] => [
+  ...dexes
+    .map((dex) => localizeDex(dex, locale))
+    .flatMap((dex): SearchDocument[] => [
+      {
+        id: `dex:${dex.slug}`,
+        section: t("search.section.dex"),
+        title: dex.name,
+        body: `${dex.tagline} ${dex.about}`,
+        path: dexPath(dex.slug),
+      },
+      {
+        id: `dex:${dex.slug}:problem`,
+        section: dex.name,
+        title: t("dex.problemStatement"),
+        body: dex.problemStatement,
+        path: dexPath(dex.slug),
+      },
+      ...dex.useCases.map((useCase, index) => ({
+        id: `dex:${dex.slug}:use-case-${index + 1}`,
+        section: t("search.section.useCase", { dex: dex.name }),
+        title: useCase.title,
+        body: useCase.description,
+        path: dexPath(dex.slug),
+        anchor: `use-case-${index + 1}`,
+      })),
+      ...dex.statistics.map((stat, index) => ({
+        id: `dex:${dex.slug}:statistic-${index + 1}`,
+        section: t("search.section.statistic", { dex: dex.name }),
+        title: `${stat.value} ${stat.title}`,
+        body: stat.description,
+        path: dexPath(dex.slug),
+        anchor: "statistics",
+      })),
+    ]),
+  ...(Object.keys(metricExplanations) as MetricKey[]).map((key) => {
+    const text = (part: "title" | "formula" | "what" | "why") =>
+      t(`roi.metric.${key}.${part}`);
+    return {
+      id: `metric:${key}`,
+      section: t("nav.dex.roiCalculator"),
+      title: text("title"),
+      body: `${text("formula")}. ${text("what")} ${text("why")}`,
+      path: null,
+      anchor: "roi-calculator",
+    };
+  }),
+  ...infoPageIds.flatMap((id) => {
+    const page = getInfoPage(id, locale);
+    return page.sections.map((section) => ({
+      id: `page:${id}:${section.id}`,
+      section: page.title,
+      title: section.heading,
+      body: section.body,
+      path: siteRoutes[id].path,
+      anchor: section.id,
+    }));
+  }),
+  ...partners
+    .map((partner) => localizePartner(partner, locale))
+    .map((partner) => ({
+      id: `partner:${partner.slug}`,
+      section: t("search.section.partner"),
+      title: partner.name,
+      body: partner.description,
+      path: partnerPath(partner.slug),
+    })),
+  ...certifications
+    .map((certification) => localizeCertification(certification, locale))
+    .map((certification) => ({
+      id: `certification:${certification.slug}`,
+      section: t("search.section.certification"),
+      title: certification.name,
+      body: `${certification.issuer}. ${certification.description}`,
+      path: certificationPath(certification.slug),
+    })),
+];
+
+export const searchTerms = (query: string) =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+const wordStartsWith = (text: string, term: string) =>
+  text.split(/[^\p{L}\p{N}%]+/u).some((word) => word.startsWith(term));
+
+// Every term must appear in the title or body. Title hits outrank body hits
+// and matches at the start of a word outrank matches inside one.
+const scoreDocument = (document: SearchDocument, terms: string[]) => {
+  const title = document.title.toLowerCase();
+  const body = document.body.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    const inTitle = title.includes(term);
+    const inBody = body.includes(term);
+    if (!inTitle && !inBody) return 0;
+    if (inTitle) score += wordStartsWith(title, term) ? 15 : 10;
+    if (inBody) score += wordStartsWith(body, term) ? 3 : 2;
+  }
+  return score;
+};
+
+// A window of the body around the first matched term
+export const searchExcerpt = (body: string, terms: string[], radius = 70) => {
+  if (body.length <= radius * 2) return body;
+  const lower = body.toLowerCase();
+  const hits = terms.map((term) => lower.indexOf(term)).filter((at) => at >= 0);
+  const first = hits.length > 0 ? Math.min(...hits) : 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(body.length, start + radius * 2);
+  return `${start > 0 ? "…" : ""}${body.slice(start, end)}${
+    end < body.length ? "…" : ""
+  }`;
+};
+
+export const searchDocuments = (
+  index: SearchDocument[],
+  query: string,
+  limit = 20,
+): SearchResult[] => {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+  return index
+    .map((document) => ({
+      document,
+      score: scoreDocument(document, terms),
+      excerpt: searchExcerpt(document.body, terms),
+    }))
+    .filter((result) => result.score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score || a.document.title.localeCompare(b.document.title),
+    )
+    .slice(0, limit);
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const highlightMatches = (
+  text: string,
+  terms: string[],
+): HighlightSegment[] => {
+  if (terms.length === 0) return [{ text, match: false }];
+  const pattern = new RegExp(
+    `(${[...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|")})`,
+    "gi",
+  );
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({
+      text: part,
+      match: terms.includes(part.toLowerCase()),
+    }));
+};
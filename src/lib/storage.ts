@@ -0,0 +1,27 @@
+type BrowserStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+const memory = new Map<string, string>();
+
+// Stands in for the browser's storage for the rest of the page's life
+const memoryStorage: BrowserStorage = {
+  getItem: (key) => memory.get(key) ?? null,
+  setItem: (key, value) => {
+    memory.set(key, String(value));
+  },
+  removeItem: (key) => {
+    memory.delete(key);
+  },
+};
+
+/**
+ * The browser's local storage, or an in-memory stand-in when reading it
+ * throws, as it does when the visitor blocks site data. Writes to the real
+ * storage can still fail when it's full, so callers keep their own guards.
+ */
+export const browserStorage = (): BrowserStorage => {
+  try {
+    return window.localStorage ?? memoryStorage;
+  } catch {
+    return memoryStorage;
+  }
+};
@@ -0,0 +1,34 @@
+import { Badge } from "../../components/ui/badge";
+import { DexCardGrid } from "../../components/dex";
+import {
+  ContactSection,
+  PageHero,
+  SiteLayout,
+} from "../../components/layout";
+import { useI18n } from "../../components/i18n";
+
+export const DexSgDexIndex = (): JSX.Element => {
+  const { t } = useI18n();
+
+  return (
+    <SiteLayout>
+      <PageHero title={t("route.dexes")} backgroundImage="/mask-group.png" />
+
+      {/* Dex Listing */}
+      <section className="container mx-auto px-4 py-20">
+        <div className="flex flex-col items-center gap-[26px] max-w-[1099px] mx-auto mb-16">
+          <Badge className="bg-transparent text-[#d2a0ff] font-sub-title-top text-[length:var(--sub-title-top-font-size)] tracking-[var(--sub-title-top-letter-spacing)] text-center rounded-none">
+            {t("dexIndex.eyebrow")}
+          </Badge>
+          <h2 className="font-h2 text-neutralsdark text-[length:var(--h2-font-size)] text-center tracking-[var(--h2-letter-spacing)] leading-[var(--h2-line-height)]">
+            {t("dexIndex.title")}
+          </h2>
+        </div>
+
+        <DexCardGrid />
+      </section>
+
+      <ContactSection />
+    </SiteLayout>
+  );
+};
@@ -0,0 +1 @@
+export { DexSgDexIndex } from "./DexSgDexIndex";
@@ -0,0 +1,117 @@
+import { useSearchParams } from "react-router-dom";
+import { Badge } from "../../components/ui/badge";
+import { Button } from "../../components/ui/button";
+import {
+  DirectoryCard,
+  DirectoryFilterGroup,
+  directories,
+  type DirectoryKind,
+} from "../../components/directory";
+import { useI18n } from "../../components/i18n";
+import { ContactSection, PageHero, SiteLayout } from "../../components/layout";
+import { dexes } from "../../content/dexes";
+import { getSiteContent } from "../../content/site";
+import {
+  filterDirectory,
+  hasDirectoryFilters,
+  noDirectoryFilters,
+  readDirectoryFilters,
+  writeDirectoryFilters,
+  type DirectoryFilters,
+} from "../../lib/directory";
+
+const dexSlugs = dexes.map((dex) => dex.slug);
+
+// Shared screen for the partner and certification directories
+export const DexSgDirectory = ({
+  kind,
+}: {
+  kind: DirectoryKind;
+}): JSX.Element => {
+  const { t, locale } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const directory = directories[kind];
+  const filters = readDirectoryFilters(
+    searchParams,
+    directory.categories,
+    dexSlugs,
+  );
+  const results = filterDirectory(directory.entries(locale), filters);
+
+  // Filtering refines the same page, so it replaces the history entry
+  const updateFilters = (next: DirectoryFilters) =>
+    setSearchParams(writeDirectoryFilters(next), { replace: true });
+
+  return (
+    <SiteLayout>
+      <PageHero title={t(`route.${kind}`)} backgroundImage="/mask-group.png" />
+
+      <section className="container mx-auto px-4 py-20">
+        <div className="flex flex-col gap-[26px] max-w-[1099px] mb-12">
+          <Badge className="bg-transparent text-[#d2a0ff] font-sub-title-top text-[length:var(--sub-title-top-font-size)] tracking-[var(--sub-title-top-letter-spacing)] rounded-none px-0">
+            {t(`directory.${kind}.eyebrow`)}
+          </Badge>
+          <p className="font-body text-[#313438] text-[length:var(--body-font-size)] tracking-[var(--body-letter-spacing)] leading-[var(--body-line-height)]">
+            {getSiteContent(locale)[kind].intro}
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-4 mb-8">
+          <DirectoryFilterGroup
+            label={t("directory.filter.category")}
+            value={filters.category}
+            onChange={(category) => updateFilters({ ...filters, category })}
+            options={[
+              { value: null, label: t("directory.filter.all") },
+              ...directory.categories.map((category) => ({
+                value: category,
+                label: t(`directory.category.${category}`),
+              })),
+            ]}
+          />
+          <DirectoryFilterGroup
+            label={t("directory.filter.dex")}
+            value={filters.dex}
+            onChange={(dex) => updateFilters({ ...filters, dex })}
+            options={[
+              { value: null, label: t("directory.filter.all") },
+              ...dexes.map((dex) => ({ value: dex.slug, label: dex.name })),
+            ]}
+          />
+        </div>
+
+        <div className="flex items-center gap-4 mb-10">
+          <p
+            aria-live="polite"
+            className="font-['Inter'] text-base text-[#313438]"
+          >
+            {t("directory.results", { count: results.length })}
+          </p>
+          {hasDirectoryFilters(filters) && (
+            <Button
+              variant="link"
+              className="px-0"
+              onClick={() => updateFilters(noDirectoryFilters)}
+            >
+              {t("directory.filter.clear")}
+            </Button>
+          )}
+        </div>
+
+        {results.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-10">
+            {results.map((item) => (
+              <DirectoryCard key={item.slug} kind={kind} item={item} />
+            ))}
+          </div>
+        ) : (
+          <p className="font-body text-[#313438] text-[length:var(--body-font-size)] tracking-[var(--body-letter-spacing)] leading-[var(--body-line-height)]">
+            {t("directory.noResults")}
+          </p>
+        )}
+      </section>
+
+      <ContactSection />
+    </SiteLayout>
+  );
+};
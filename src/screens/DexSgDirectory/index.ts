@@ -0,0 +1 @@
+export { DexSgDirectory } from "./DexSgDirectory";
@@ -0,0 +1,136 @@
+import { ArrowLeft, ExternalLink } from "lucide-react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "../../components/ui/button";
+import {
+  CertificationStatusBadge,
+  directories,
+  isCertification,
+  type DirectoryKind,
+} from "../../components/directory";
+import { useI18n } from "../../components/i18n";
+import { ContactSection, PageHero, SiteLayout } from "../../components/layout";
+import { getDex } from "../../content/dexes";
+import { parseIsoDate } from "../../lib/directory";
+import { dexPath, siteRoutes } from "../../lib/routes";
+import { DexSgNotFound } from "../DexSgNotFound";
+
+const termClass =
+  "font-['Inter'] text-sm font-semibold uppercase tracking-[0.5px] text-[#6b6f75]";
+const detailClass =
+  "font-body text-[#313438] text-[length:var(--body-font-size)] tracking-[var(--body-letter-spacing)] leading-[var(--body-line-height)]";
+
+// Detail page for one partner or certification
+export const DexSgDirectoryEntry = ({
+  kind,
+}: {
+  kind: DirectoryKind;
+}): JSX.Element => {
+  const { slug } = useParams();
+  const { t, locale, formatDate } = useI18n();
+  const item = directories[kind]
+    .entries(locale)
+    .find((entry) => entry.slug === slug);
+
+  if (!item) {
+    return (
+      <DexSgNotFound
+        title={t(`directory.${kind}.notFound.title`)}
+        message={t(`directory.${kind}.notFound.message`, { slug: slug ?? "" })}
+      />
+    );
+  }
+
+  const date = (value: string) =>
+    formatDate(parseIsoDate(value), { dateStyle: "long", timeZone: "UTC" });
+
+  return (
+    <SiteLayout>
+      <PageHero title={item.name} backgroundImage="/mask-group.png" />
+
+      <section className="container mx-auto px-4 py-20">
+        <Link
+          to={siteRoutes[kind].path}
+          className="inline-flex items-center gap-2 mb-10 font-['Inter'] text-base tracking-[-0.30px] text-blue-tintblue-tint hover:underline focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring rounded-sm"
+        >
+          <ArrowLeft className="h-4 w-4" aria-hidden />
+          {t(`directory.${kind}.back`)}
+        </Link>
+
+        <div className="flex flex-wrap -mx-4">
+          <div className="w-full lg:w-5/12 px-4">
+            <img
+              className="w-full max-w-[480px] h-auto rounded-md bg-[#f1f1f1]"
+              alt={item.logo.alt}
+              src={item.logo.src}
+            />
+          </div>
+
+          <div className="w-full lg:w-7/12 px-4 mt-10 lg:mt-0">
+            <div className="flex flex-col gap-[30px] max-w-[682px]">
+              <p className={detailClass}>{item.description}</p>
+
+              <dl className="grid grid-cols-1 sm:grid-cols-[160px_1fr] gap-x-6 gap-y-4">
+                <dt className={termClass}>{t("directory.detail.category")}</dt>
+                <dd className={detailClass}>
+                  {t(`directory.category.${item.category}`)}
+                </dd>
+
+                {isCertification(item) && (
+                  <>
+                    <dt className={termClass}>
+                      {t("directory.detail.issuer")}
+                    </dt>
+                    <dd className={detailClass}>{item.issuer}</dd>
+
+                    <dt className={termClass}>
+                      {t("directory.detail.validity")}
+                    </dt>
+                    <dd
+                      className={`${detailClass} flex flex-wrap items-center gap-3`}
+                    >
+                      {t("directory.detail.validRange", {
+                        from: date(item.validFrom),
+                        until: date(item.validUntil),
+                      })}
+                      <CertificationStatusBadge certification={item} />
+                    </dd>
+                  </>
+                )}
+
+                <dt className={termClass}>{t("directory.detail.dexes")}</dt>
+                <dd className={detailClass}>
+                  <ul className="flex flex-wrap gap-x-4 gap-y-1">
+                    {item.dexes.map((dexSlug) => (
+                      <li key={dexSlug}>
+                        <Link
+                          to={dexPath(dexSlug)}
+                          className="text-blue-tintblue-tint hover:underline"
+                        >
+                          {getDex(dexSlug)?.name ?? dexSlug}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </dd>
+              </dl>
+
+              <Button
+                asChild
+                variant="outline"
+                className="h-[50px] w-fit rounded-sm border-[#1e2215]"
+              >
+                <a href={item.url} target="_blank" rel="noopener noreferrer">
+                  {t("directory.detail.website")}
+                  <ExternalLink aria-hidden />
+                  <span className="sr-only">{t("common.newTab")}</span>
+                </a>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <ContactSection />
+    </SiteLayout>
+  );
+};
@@ -0,0 +1 @@
+export { DexSgDirectoryEntry } from "./DexSgDirectoryEntry";
@@ -0,0 +1,42 @@
+import { Badge } from "../../components/ui/badge";
+import { DexCardGrid } from "../../components/dex";
+import { DirectoryShowcase } from "../../components/directory";
+import {
+  ContactSection,
+  PageHero,
+  SiteLayout,
+} from "../../components/layout";
+import { useI18n } from "../../components/i18n";
+
+export const DexSgHome = (): JSX.Element => {
+  const { t } = useI18n();
+
+  return (
+    <SiteLayout>
+      <PageHero title="DEX SG" backgroundImage="/mask-group.png" />
+
+      {/* Introduction */}
+      <section className="container mx-auto px-4 py-20">
+        <div className="flex flex-col items-center gap-[30px] max-w-[1099px] mx-auto mb-16">
+          <div className="flex flex-col items-center gap-[26px] w-full">
+            <Badge className="bg-transparent text-[#d2a0ff] font-sub-title-top text-[length:var(--sub-title-top-font-size)] tracking-[var(--sub-title-top-letter-spacing)] text-center rounded-none">
+              {t("home.eyebrow")}
+            </Badge>
+            <h2 className="font-h2 text-neutralsdark text-[length:var(--h2-font-size)] text-center tracking-[var(--h2-letter-spacing)] leading-[var(--h2-line-height)]">
+              {t("home.title")}
+            </h2>
+          </div>
+          <p className="font-body text-[#313438] text-[length:var(--body-font-size)] text-center tracking-[var(--body-letter-spacing)] leading-[var(--body-line-height)]">
+            {t("home.intro")}
+          </p>
+        </div>
+
+        <DexCardGrid />
+      </section>
+
+      <DirectoryShowcase />
+
+      <ContactSection />
+    </SiteLayout>
+  );
+};
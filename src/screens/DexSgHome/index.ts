@@ -0,0 +1 @@
+export { DexSgHome } from "./DexSgHome";
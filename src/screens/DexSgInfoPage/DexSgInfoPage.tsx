@@ -0,0 +1,50 @@
+import { Badge } from "../../components/ui/badge";
+import {
+  ContactSection,
+  PageHero,
+  SiteLayout,
+} from "../../components/layout";
+import { useI18n } from "../../components/i18n";
+import { getInfoPage, type InfoPageId } from "../../content/pages";
+
+// Shared screen for the static pages linked from the header and footer
+export const DexSgInfoPage = ({ page }: { page: InfoPageId }): JSX.Element => {
+  const { t, locale } = useI18n();
+  const content = getInfoPage(page, locale);
+
+  return (
+    <SiteLayout>
+      <PageHero title={t(`route.${page}`)} backgroundImage="/mask-group.png" />
+
+      <section className="container mx-auto px-4 py-20">
+        <div className="flex flex-col gap-[30px] max-w-[1099px] mx-auto">
+          <div className="flex flex-col gap-[26px]">
+            <Badge className="bg-transparent text-[#d2a0ff] font-sub-title-top text-[length:var(--sub-title-top-font-size)] tracking-[var(--sub-title-top-letter-spacing)] rounded-none px-0">
+              {content.eyebrow}
+            </Badge>
+            <p className="font-body text-[#313438] text-[length:var(--body-font-size)] tracking-[var(--body-letter-spacing)] leading-[var(--body-line-height)]">
+              {content.intro}
+            </p>
+          </div>
+
+          {content.sections.map((section) => (
+            <div
+              key={section.id}
+              id={section.id}
+              className="flex flex-col gap-4 scroll-mt-[120px]"
+            >
+              <h2 className="font-['Urbanist'] font-semibold text-neutralsdark text-[32px] tracking-[-0.32px]">
+                {section.heading}
+              </h2>
+              <p className="font-body text-[#313438] text-[length:var(--body-font-size)] tracking-[var(--body-letter-spacing)] leading-[var(--body-line-height)]">
+                {section.body}
+              </p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <ContactSection />
+    </SiteLayout>
+  );
+};
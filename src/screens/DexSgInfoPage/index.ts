@@ -0,0 +1 @@
+export { DexSgInfoPage } from "./DexSgInfoPage";
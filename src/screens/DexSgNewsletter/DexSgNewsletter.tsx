@@ -0,0 +1,169 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useI18n } from "../../components/i18n";
+import { PageHero, SiteLayout } from "../../components/layout";
+import { newsletterService } from "../../components/newsletter";
+import { Button } from "../../components/ui/button";
+import type { ConfirmResult, UnsubscribeResult } from "../../lib/newsletter";
+import { siteRoutes } from "../../lib/routes";
+
+type NewsletterAction = "confirm" | "unsubscribe";
+
+const bodyClassName =
+  "font-body text-[#313438] text-[length:var(--body-font-size)] tracking-[var(--body-letter-spacing)] leading-[var(--body-line-height)]";
+
+const ConfirmSubscription = ({ token }: { token: string }): JSX.Element => {
+  const [result, setResult] = useState<ConfirmResult | null>(null);
+  const [failed, setFailed] = useState(false);
+  const { t, rich } = useI18n();
+  // StrictMode runs effects twice in dev; confirm only once
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    newsletterService
+      .confirm(token)
+      .then(setResult)
+      .catch(() => setFailed(true));
+  }, [token]);
+
+  if (failed) {
+    return (
+      <p role="alert" className={bodyClassName}>
+        {t("newsletterPage.confirmFailed")}
+      </p>
+    );
+  }
+  if (!result) {
+    return (
+      <p role="status" className={bodyClassName}>
+        {t("newsletterPage.confirming")}
+      </p>
+    );
+  }
+  if (result.status === "invalid") {
+    return (
+      <p role="alert" className={bodyClassName}>
+        {t("newsletterPage.confirmInvalid")}
+      </p>
+    );
+  }
+  return (
+    <div role="status" className="flex flex-col gap-4">
+      <p className={bodyClassName}>
+        {t(
+          result.status === "confirmed"
+            ? "newsletterPage.confirmed"
+            : "newsletterPage.alreadySubscribed",
+          { email: result.email },
+        )}
+      </p>
+      <p className="text-sm text-[#726486]">
+        {rich("newsletterPage.changedMind", {
+          link: (
+            <Link
+              className="underline"
+              to={`${siteRoutes.newsletterUnsubscribe.path}?token=${encodeURIComponent(
+                result.unsubscribeToken,
+              )}`}
+            >
+              {t("newsletterPage.unsubscribe")}
+            </Link>
+          ),
+        })}
+      </p>
+    </div>
+  );
+};
+
+// Unsubscribing waits for a click so link scanners can't trigger it
+const Unsubscribe = ({ token }: { token: string }): JSX.Element => {
+  const [result, setResult] = useState<UnsubscribeResult | null>(null);
+  const [pending, setPending] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const { t } = useI18n();
+
+  const handleUnsubscribe = async () => {
+    setPending(true);
+    setFailed(false);
+    try {
+      setResult(await newsletterService.unsubscribe(token));
+    } catch {
+      setFailed(true);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  if (result?.status === "unsubscribed") {
+    return (
+      <p role="status" className={bodyClassName}>
+        {t("newsletterPage.unsubscribed", { email: result.email })}
+      </p>
+    );
+  }
+  if (result?.status === "invalid") {
+    return (
+      <p role="alert" className={bodyClassName}>
+        {t("newsletterPage.unsubscribeInvalid")}
+      </p>
+    );
+  }
+  return (
+    <div className="flex flex-col items-start gap-6">
+      <p className={bodyClassName}>
+        {t("newsletterPage.unsubscribePrompt")}
+      </p>
+      <Button
+        variant="outline"
+        className="h-[50px] rounded-sm border-[#1e2215]"
+        disabled={pending}
+        onClick={handleUnsubscribe}
+      >
+        {t(
+          pending
+            ? "newsletterPage.unsubscribing"
+            : "newsletterPage.unsubscribe",
+        )}
+      </Button>
+      {failed && (
+        <p role="alert" className="text-sm text-red-600">
+          {t("newsletterPage.failed")}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export const DexSgNewsletter = ({
+  action,
+}: {
+  action: NewsletterAction;
+}): JSX.Element => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const { t } = useI18n();
+  const title = t(
+    action === "confirm"
+      ? "route.newsletterConfirm"
+      : "route.newsletterUnsubscribe",
+  );
+
+  return (
+    <SiteLayout>
+      <PageHero title={title} backgroundImage="/mask-group.png" />
+      <section className="container mx-auto px-4 py-20 max-w-[1099px]">
+        {!token ? (
+          <p role="alert" className={bodyClassName}>
+            {t("newsletterPage.missingToken")}
+          </p>
+        ) : action === "confirm" ? (
+          <ConfirmSubscription token={token} />
+        ) : (
+          <Unsubscribe token={token} />
+        )}
+      </section>
+    </SiteLayout>
+  );
+};
@@ -0,0 +1 @@
+export { DexSgNewsletter } from "./DexSgNewsletter";
@@ -0,0 +1,45 @@
+import { Link } from "react-router-dom";
+import { Button } from "../../components/ui/button";
+import { useI18n } from "../../components/i18n";
+import { PageHero, SiteLayout } from "../../components/layout";
+import { siteRoutes } from "../../lib/routes";
+
+export const DexSgNotFound = ({
+  title,
+  message,
+}: {
+  title?: string;
+  message?: string;
+}): JSX.Element => {
+  const { t } = useI18n();
+
+  return (
+    <SiteLayout>
+      <PageHero
+        title={title ?? t("notFound.title")}
+        backgroundImage="/mask-group.png"
+      />
+      <section className="container mx-auto px-4 py-20 flex flex-col items-start gap-6">
+        <p className="font-body text-[#313438] text-[length:var(--body-font-size)] tracking-[var(--body-letter-spacing)] leading-[var(--body-line-height)]">
+          {message ?? t("notFound.message")}
+        </p>
+        <div className="flex gap-4">
+          <Button
+            asChild
+            variant="outline"
+            className="h-[50px] rounded-sm border-[#1e2215]"
+          >
+            <Link to={siteRoutes.home.path}>{t("notFound.home")}</Link>
+          </Button>
+          <Button
+            asChild
+            variant="outline"
+            className="h-[50px] rounded-sm border-[#1e2215]"
+          >
+            <Link to={siteRoutes.dexes.path}>{t("notFound.browse")}</Link>
+          </Button>
+        </div>
+      </section>
+    </SiteLayout>
+  );
+};
@@ -0,0 +1 @@
+export { DexSgNotFound } from "./DexSgNotFound";
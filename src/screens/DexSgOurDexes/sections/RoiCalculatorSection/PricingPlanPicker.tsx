@@ -0,0 +1,110 @@
+import { useI18n } from "../../../../components/i18n";
+import type { Translator } from "../../../../lib/i18n";
+import {
+  exceedsPlanLimit,
+  pricingPlans,
+  type PricingPlan,
+  type RoiFormatter,
+} from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { useRoiText } from "./useRoiText";
+
+interface PricingPlanPickerProps {
+  selectedPlan: PricingPlan;
+  partners: number;
+  onSelect: (planId: string) => void;
+}
+
+const describeBands = (
+  plan: PricingPlan,
+  format: RoiFormatter,
+  t: Translator["t"],
+) => {
+  const bands = plan.transactionFeeBands;
+  const fee = (sgd: number) => format.formatMoney(sgd, { precise: true });
+  if (bands.length === 1) {
+    return t("roi.plan.feeFlat", { fee: fee(bands[0].feePerTx) });
+  }
+  return bands
+    .map((band, index) =>
+      band.upTo === null
+        ? t("roi.plan.feeAbove", {
+            fee: fee(band.feePerTx),
+            limit: format.formatNumber(bands[index - 1]?.upTo ?? 0),
+          })
+        : t("roi.plan.feeUpTo", {
+            fee: fee(band.feePerTx),
+            limit: format.formatNumber(band.upTo),
+          }),
+    )
+    .join(", ");
+};
+
+export const PricingPlanPicker = ({
+  selectedPlan,
+  partners,
+  onSelect,
+}: PricingPlanPickerProps): JSX.Element => {
+  const format = useRoiFormat();
+  const { t } = useI18n();
+  const text = useRoiText();
+
+  return (
+    <fieldset className="flex flex-col gap-4">
+      <legend className="text-[#d2a0ff] text-lg mb-4">
+        {t("roi.plan.legend")}
+      </legend>
+      <div role="radiogroup" className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {pricingPlans.map((plan) => {
+          const selected = plan.id === selectedPlan.id;
+          return (
+            <button
+              key={plan.id}
+              type="button"
+              role="radio"
+              aria-checked={selected}
+              onClick={() => onSelect(plan.id)}
+              className={`text-left p-4 rounded-lg border transition-colors ${
+                selected
+                  ? "border-blue-300 bg-[rgba(152,94,255,0.2)]"
+                  : "border-[rgba(255,255,255,0.3)] bg-transparent hover:bg-[rgba(255,255,255,0.05)]"
+              }`}
+            >
+              <p className="text-white font-semibold">{text.planName(plan)}</p>
+              <p className="text-[#aaa0c2] text-sm mt-1">
+                {text.planDescription(plan)}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+      <div className="text-sm text-[#aaa0c2]">
+        <p>
+          {t("roi.plan.subscription", {
+            base: format.formatMoney(selectedPlan.baseSubscription),
+            perPartner: format.formatMoney(selectedPlan.perPartnerFee),
+          })}
+        </p>
+        <p>
+          {t("roi.plan.transactionFees", {
+            bands: describeBands(selectedPlan, format, t),
+          })}
+        </p>
+        <p>
+          {t("roi.plan.complianceReduction", {
+            percent: Math.round(selectedPlan.complianceReduction * 100),
+          })}
+        </p>
+        {exceedsPlanLimit(selectedPlan, partners) && (
+          <p role="alert" className="text-red-400 mt-2">
+            {t("roi.plan.limit", {
+              plan: text.planName(selectedPlan),
+              max: selectedPlan.maxPartners ?? 0,
+              count: partners,
+            })}
+          </p>
+        )}
+      </div>
+    </fieldset>
+  );
+};
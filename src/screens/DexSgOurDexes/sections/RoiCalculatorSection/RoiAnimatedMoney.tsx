@@ -0,0 +1,10 @@
+import { useRoiFormat } from "./RoiFormatContext";
+import { useAnimatedNumber } from "./useAnimatedNumber";
+
+// An SGD amount that counts to its new value when it changes
+export const RoiAnimatedMoney = ({ value }: { value: number }): JSX.Element => {
+  const { formatMoney } = useRoiFormat();
+  const shown = useAnimatedNumber(value);
+
+  return <>{formatMoney(shown)}</>;
+};
@@ -0,0 +1,128 @@
+import { useI18n } from "../../../../components/i18n";
+import type { Translator } from "../../../../lib/i18n";
+import {
+  findBreakEven,
+  findNegativeDrivers,
+  roiFieldsByKey,
+  type PricingPlan,
+  type RoiInputs,
+  type RoiResult,
+  type SolveResult,
+} from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+
+interface RoiBreakEvenNoticeProps {
+  inputs: RoiInputs;
+  plan: PricingPlan;
+  result: RoiResult;
+}
+
+type BreakEvenDriver = "partners" | "transactions";
+
+const describeBreakEven = (
+  solved: SolveResult,
+  current: number,
+  driver: BreakEvenDriver,
+  max: number,
+  t: Translator["t"],
+) => {
+  if (solved.status === "infeasible") {
+    return t("roi.breakEven.infeasible", {
+      driver: t(`roi.breakEven.driver.${driver}`),
+      max,
+    });
+  }
+  const value = t(`roi.breakEven.${driver}`, { count: solved.value });
+  if (solved.value === current) {
+    return t("roi.breakEven.atCurrent", { value });
+  }
+  return t("roi.breakEven.from", { value, current });
+};
+
+export const RoiBreakEvenNotice = ({
+  inputs,
+  plan,
+  result,
+}: RoiBreakEvenNoticeProps): JSX.Element => {
+  const format = useRoiFormat();
+  const { t } = useI18n();
+  const breakEven = findBreakEven(inputs, plan);
+  const drivers = findNegativeDrivers(inputs, plan);
+  const total = result.totalBenefit;
+
+  const breakEvenLines = [
+    describeBreakEven(
+      breakEven.partners,
+      inputs.num_partners,
+      "partners",
+      roiFieldsByKey.num_partners.max,
+      t,
+    ),
+    describeBreakEven(
+      breakEven.transactions,
+      inputs.avg_tx_per_partner,
+      "transactions",
+      roiFieldsByKey.avg_tx_per_partner.max,
+      t,
+    ),
+  ];
+
+  if (total > 0) {
+    return (
+      <div className="text-sm text-[#aaa0c2]">
+        <p className="font-semibold text-white mb-1">
+          {t("roi.breakEven.title")}
+        </p>
+        {breakEvenLines.map((line) => (
+          <p key={line}>{line}</p>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="status"
+      className={`p-6 rounded-lg border text-white ${
+        total < 0
+          ? "border-red-400 bg-[rgba(248,113,113,0.1)]"
+          : "border-[#d2a0ff] bg-[rgba(210,160,255,0.1)]"
+      }`}
+    >
+      <h4 className="text-lg font-semibold mb-2">
+        {total < 0
+          ? t("roi.breakEven.loss", { amount: format.formatMoney(-total) })
+          : t("roi.breakEven.even")}
+      </h4>
+      {drivers.length > 0 && (
+        <>
+          <p className="text-sm mb-2">{t("roi.breakEven.drivers")}</p>
+          <ul className="list-disc pl-5 text-sm space-y-1 mb-4">
+            {drivers.map((driver) => (
+              <li key={driver.key}>
+                <span className="font-semibold">
+                  {t(`roi.driver.${driver.key}`)}:
+                </span>{" "}
+                {t(
+                  `roi.driver.reason.${driver.reason}`,
+                  Object.fromEntries(
+                    Object.entries(driver.amounts).map(([name, sgd]) => [
+                      name,
+                      format.formatMoney(sgd),
+                    ]),
+                  ),
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      <p className="text-sm font-semibold mb-1">{t("roi.breakEven.title")}</p>
+      {breakEvenLines.map((line) => (
+        <p key={line} className="text-sm">
+          {line}
+        </p>
+      ))}
+    </div>
+  );
+};
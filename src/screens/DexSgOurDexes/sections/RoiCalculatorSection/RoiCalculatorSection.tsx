@@ -0,0 +1,782 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useContact } from "../../../../components/contact";
+import { useI18n } from "../../../../components/i18n";
+import type { MessageKey } from "../../../../lib/i18n";
+import { downloadBlob } from "../../../../lib/download";
+import { Badge } from "../../../../components/ui/badge";
+import { Button } from "../../../../components/ui/button";
+import { Card, CardContent } from "../../../../components/ui/card";
+import { Info } from "lucide-react";
+import {
+  buildRoiReport,
+  calculateBenefits,
+  changedInputs,
+  createRoiFormatter,
+  createRoiReportPdf,
+  currencies,
+  decodeCalculatorState,
+  encodeCalculatorState,
+  exchangeRatesAsOf,
+  getCurrency,
+  getPricingPlan,
+  metricExplanations,
+  parseRoiInput,
+  partnerEquivalentInputs,
+  partnerTableInputs,
+  roundToFields,
+  reportFileName,
+  reportToCsv,
+  roiFieldGroups,
+  roiFields,
+  roiFieldsByKey,
+  createScenarioPresets,
+  defaultValues,
+  type PricingPlan,
+  type RoiFieldGroup,
+  type RoiFormatter,
+  type RoiInputIssue,
+  type RoiInputKey,
+  type RoiInputs,
+  type RoiMetricKey,
+  type RoiPartner,
+  type RoiResult,
+  type RoiScenario,
+} from "../../../../lib/roi";
+import { PricingPlanPicker } from "./PricingPlanPicker";
+import { RoiAnimatedMoney } from "./RoiAnimatedMoney";
+import { RoiBreakEvenNotice } from "./RoiBreakEvenNotice";
+import { RoiCostBreakdownChart } from "./RoiCostBreakdownChart";
+import { RoiFormatContext } from "./RoiFormatContext";
+import { RoiGoalSeekPanel } from "./RoiGoalSeekPanel";
+import { RoiInputField } from "./RoiInputField";
+import { RoiPartnerBreakdown } from "./RoiPartnerBreakdown";
+import { RoiPartnerTable } from "./RoiPartnerTable";
+import { RoiPresetDiff } from "./RoiPresetDiff";
+import { RoiProjectionPanel } from "./RoiProjectionPanel";
+import { RoiResumePrompt } from "./RoiResumePrompt";
+import { RoiSavedDataNotice } from "./RoiSavedDataNotice";
+import { RoiScenarioComparison } from "./RoiScenarioComparison";
+import { RoiSensitivityPanel } from "./RoiSensitivityPanel";
+import { RoiWaterfallChart } from "./RoiWaterfallChart";
+import { ScenarioBar } from "./ScenarioBar";
+import { useDebouncedValue } from "./useDebouncedValue";
+import { useRoiScenarios } from "./useRoiScenarios";
+import { useRoiSession } from "./useRoiSession";
+import { useRoiText } from "./useRoiText";
+
+type FieldErrors = Partial<Record<RoiInputKey, RoiInputIssue>>;
+type ResultsView = "annual" | "projection" | "sensitivity" | "goal" | "compare";
+
+const resultsViews: ResultsView[] = [
+  "annual",
+  "projection",
+  "sensitivity",
+  "goal",
+  "compare",
+];
+
+// How long typing pauses before live results catch up
+const liveDelayMs = 300;
+
+// What results are worked out from
+type CalculationSource = Pick<RoiScenario, "inputs" | "partners" | "planId">;
+
+// Inputs, partners and plan the results on screen were worked out from
+interface RoiCalculation {
+  inputs: RoiInputs;
+  partners: RoiPartner[] | null;
+  plan: PricingPlan;
+  result: RoiResult;
+}
+
+const calculate = (
+  inputs: RoiInputs,
+  plan: PricingPlan,
+  partners: RoiPartner[] | null,
+): RoiCalculation => ({
+  inputs,
+  partners,
+  plan,
+  result: calculateBenefits(inputs, plan, partners),
+});
+
+const isOutOfDate = (calculation: RoiCalculation, source: CalculationSource) =>
+  calculation.plan.id !== source.planId ||
+  changedInputs(source.inputs, calculation.inputs).length > 0 ||
+  JSON.stringify(calculation.partners) !== JSON.stringify(source.partners);
+
+const toDrafts = (values: RoiInputs, format: RoiFormatter) =>
+  Object.fromEntries(
+    roiFields.map((field) => [
+      field.key,
+      format.formatInputValue(field, values[field.key]),
+    ]),
+  ) as Record<RoiInputKey, string>;
+
+interface RoiCalculatorSectionProps {
+  // Starting inputs for the Dex being viewed
+  defaults?: RoiInputs;
+  // Keeps each Dex's calculator session apart in browser storage
+  sessionScope?: string;
+}
+
+export const RoiCalculatorSection = ({
+  defaults = defaultValues,
+  sessionScope = "default",
+}: RoiCalculatorSectionProps): JSX.Element => {
+  const [presets] = useState(() => createScenarioPresets(defaults));
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [shared] = useState(() =>
+    decodeCalculatorState(searchParams, presets),
+  );
+  const {
+    scenarioList,
+    activeScenario,
+    setActiveId,
+    setInput,
+    setPartners,
+    setPlan,
+    renameScenario,
+    resetScenario,
+    duplicateScenario,
+    removeScenario,
+    restoreScenarios,
+  } = useRoiScenarios(presets, shared?.state);
+  const [currencyCode, setCurrencyCode] = useState(
+    shared?.state.currency ?? currencies[0].code,
+  );
+  const { t, intl } = useI18n();
+  const format = useMemo(
+    () => createRoiFormatter(getCurrency(currencyCode), intl),
+    [currencyCode, intl],
+  );
+  const [drafts, setDrafts] = useState(() =>
+    toDrafts(activeScenario.inputs, format),
+  );
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [partnerIssues, setPartnerIssues] = useState(0);
+  // Off, results wait for "Calculate ROI" like they used to
+  const [liveResults, setLiveResults] = useState(true);
+  const [calculation, setCalculation] = useState<RoiCalculation | null>(() =>
+    calculate(
+      activeScenario.inputs,
+      getPricingPlan(activeScenario.planId),
+      activeScenario.partners,
+    ),
+  );
+  // Set once the visitor's own figures are on screen, so Contact Us doesn't
+  // attach the defaults nobody entered
+  const [calculatorUsed, setCalculatorUsed] = useState(shared !== null);
+  const [resultsView, setResultsView] = useState<ResultsView>("annual");
+  const [selectedMetric, setSelectedMetric] = useState<RoiMetricKey | null>(
+    shared?.state.metric ?? null,
+  );
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Shown for copying by hand when the clipboard can't be used
+  const [manualLink, setManualLink] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<MessageKey | null>(null);
+
+  const session = useRoiSession(
+    sessionScope,
+    presets,
+    {
+      scenarios: scenarioList,
+      activeId: activeScenario.id,
+      currency: currencyCode,
+      metric: selectedMetric,
+      calculated: calculation !== null,
+    },
+    shared === null,
+  );
+
+  const { setRoiAttachment } = useContact();
+  const text = useRoiText();
+  const currencyNames = useMemo(
+    () => new Intl.DisplayNames(intl, { type: "currency" }),
+    [intl],
+  );
+
+  // Leads sent through Contact Us carry the latest calculation
+  useEffect(() => {
+    setRoiAttachment(
+      calculation && calculatorUsed
+        ? {
+            scenarioName: activeScenario.name,
+            planId: calculation.plan.id,
+            currency: currencyCode,
+            inputs: calculation.inputs,
+            results: {
+              totalBenefit: calculation.result.totalBenefit,
+              costSaving: calculation.result.costSaving,
+              revenueSaving: calculation.result.revenueSaving,
+              riskSaving: calculation.result.riskSaving,
+            },
+          }
+        : null,
+    );
+  }, [
+    calculation,
+    calculatorUsed,
+    activeScenario.name,
+    currencyCode,
+    setRoiAttachment,
+  ]);
+
+  useEffect(() => () => setRoiAttachment(null), [setRoiAttachment]);
+
+  const errorCount = Object.keys(fieldErrors).length + partnerIssues;
+  const hasErrors = errorCount > 0;
+  const calculatorValues = activeScenario.inputs;
+  const pricingPlan = getPricingPlan(activeScenario.planId);
+  const liveSource = useMemo<CalculationSource>(
+    () => ({
+      inputs: calculatorValues,
+      partners: activeScenario.partners,
+      planId: activeScenario.planId,
+    }),
+    [calculatorValues, activeScenario.partners, activeScenario.planId],
+  );
+  const settledSource = useDebouncedValue(liveSource, liveDelayMs);
+  const sourceOnMount = useRef(settledSource);
+  const isStale = calculation !== null && isOutOfDate(calculation, liveSource);
+
+  const loadDrafts = (values: RoiInputs, formatter = format) => {
+    setDrafts(toDrafts(values, formatter));
+    setFieldErrors({});
+  };
+
+  const handleCurrencyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const code = getCurrency(e.target.value).code;
+    setCurrencyCode(code);
+    loadDrafts(calculatorValues, createRoiFormatter(getCurrency(code), intl));
+  };
+
+  const shareParams = (metric: RoiMetricKey | null) =>
+    encodeCalculatorState(
+      {
+        presetKey: activeScenario.presetKey ?? "default",
+        name: activeScenario.presetKey === null ? activeScenario.name : null,
+        inputs: calculatorValues,
+        partners: activeScenario.partners,
+        planId: activeScenario.planId,
+        metric,
+        currency: currencyCode,
+      },
+      presets,
+    );
+
+  const handleCalculate = () => {
+    if (hasErrors) return;
+    setCalculation(
+      calculate(calculatorValues, pricingPlan, activeScenario.partners),
+    );
+    setCalculatorUsed(true);
+    setSearchParams(shareParams(selectedMetric), { replace: true });
+  };
+
+  // Live results follow the inputs once typing pauses. The link only
+  // changes after an edit, so opening the page leaves the address alone.
+  useEffect(() => {
+    if (!liveResults) return;
+    setCalculation((current) =>
+      current && !isOutOfDate(current, settledSource)
+        ? current
+        : calculate(
+            settledSource.inputs,
+            getPricingPlan(settledSource.planId),
+            settledSource.partners,
+          ),
+    );
+    if (settledSource !== sourceOnMount.current) {
+      setCalculatorUsed(true);
+      setSearchParams(shareParams(selectedMetric), { replace: true });
+    }
+  }, [liveResults, settledSource]);
+
+  const handleSelectMetric = (metric: RoiMetricKey) => {
+    const next = selectedMetric === metric ? null : metric;
+    setSelectedMetric(next);
+    if (calculation) setSearchParams(shareParams(next), { replace: true });
+  };
+
+  const currentReport = (current: RoiCalculation) =>
+    buildRoiReport({
+      scenarioName: activeScenario.name,
+      currency: format.currency,
+      ...current,
+    });
+
+  const handleDownloadCsv = () => {
+    if (!calculation) return;
+    const report = currentReport(calculation);
+    downloadBlob(
+      new Blob([reportToCsv(report)], { type: "text/csv;charset=utf-8" }),
+      reportFileName(report, "csv"),
+    );
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!calculation) return;
+    const report = currentReport(calculation);
+    setExporting(true);
+    setExportError(null);
+    try {
+      downloadBlob(await createRoiReportPdf(report), reportFileName(report, "pdf"));
+    } catch {
+      setExportError("roi.pdfFailed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const url = new URL(window.location.href);
+    url.search = shareParams(selectedMetric).toString();
+    // No clipboard off HTTPS, and writing to it can be refused
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setManualLink(null);
+      setLinkCopied(true);
+    } catch {
+      setLinkCopied(false);
+      setManualLink(url.toString());
+    }
+  };
+
+  const handleScenarioChange = (id: string) => {
+    setActiveId(id);
+    const next = scenarioList.find((scenario) => scenario.id === id);
+    if (next) loadDrafts(next.inputs);
+  };
+
+  const handleDuplicate = (id: string) => {
+    duplicateScenario(id);
+    loadDrafts(activeScenario.inputs);
+  };
+
+  const handleReset = (id: string) => {
+    resetScenario(id);
+    const preset = scenarioList.find((scenario) => scenario.id === id)?.presetKey;
+    if (preset) loadDrafts(presets[preset]);
+  };
+
+  const handleRemove = (id: string) => {
+    removeScenario(id);
+    const next = scenarioList.find((scenario) => scenario.id !== id);
+    if (id === activeScenario.id && next) loadDrafts(next.inputs);
+  };
+
+  const handleResume = () => {
+    const { saved } = session;
+    if (!saved) return;
+    const active =
+      saved.scenarios.find((scenario) => scenario.id === saved.activeId) ??
+      saved.scenarios[0];
+    restoreScenarios(saved.scenarios, active.id);
+    setCurrencyCode(saved.currency);
+    loadDrafts(
+      active.inputs,
+      createRoiFormatter(getCurrency(saved.currency), intl),
+    );
+    setSelectedMetric(saved.metric);
+    setCalculation(
+      liveResults || saved.calculated
+        ? calculate(active.inputs, getPricingPlan(active.planId), active.partners)
+        : null,
+    );
+    setCalculatorUsed(true);
+    session.dismiss();
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const key = e.target.name as RoiInputKey;
+    const { value } = e.target;
+    const parsed = parseRoiInput(
+      roiFieldsByKey[key],
+      value,
+      format.currency,
+      format.locale,
+    );
+
+    setDrafts((prev) => ({ ...prev, [key]: value }));
+    setFieldErrors((prev) => {
+      const { [key]: _removed, ...rest } = prev;
+      return parsed.ok ? rest : { ...rest, [key]: parsed.issue };
+    });
+    if (parsed.ok) {
+      setInput(key, parsed.value);
+    }
+  };
+
+  // A goal-seek result goes into the form as if it had been typed
+  const handleApplyGoal = (key: RoiInputKey, value: number) => {
+    setInput(key, value);
+    setDrafts((prev) => ({
+      ...prev,
+      [key]: format.formatInputValue(roiFieldsByKey[key], value),
+    }));
+    setFieldErrors((prev) => {
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // The table sets the inputs it takes over, so only their drafts reload
+  const handlePartnersChange = (partners: RoiPartner[] | null) => {
+    setPartners(partners);
+    const next = toDrafts(
+      partners
+        ? partnerEquivalentInputs(calculatorValues, partners)
+        : roundToFields(calculatorValues),
+      format,
+    );
+    setDrafts((prev) => {
+      const updated = { ...prev };
+      for (const key of partnerTableInputs) updated[key] = next[key];
+      return updated;
+    });
+    setFieldErrors((prev) => {
+      const rest = { ...prev };
+      for (const key of partnerTableInputs) delete rest[key];
+      return rest;
+    });
+  };
+
+  const handlePartnerIssues = useCallback(
+    (count: number) => setPartnerIssues(count),
+    [],
+  );
+
+  return (
+    <RoiFormatContext.Provider value={format}>
+      <Card
+        id="roi-calculator"
+        className="w-full h-auto bg-[#160b25] rounded-xl bg-cover bg-center scroll-mt-[120px]"
+      >
+        <CardContent className="p-6 lg:p-10">
+          <div className="flex flex-col gap-6">
+            <div className="flex flex-col gap-[26px]">
+              <Badge className="bg-transparent text-[#d2a0ff] font-sub-title-top text-[length:var(--sub-title-top-font-size)] tracking-[var(--sub-title-top-letter-spacing)] rounded-none px-0">
+                {t("roi.eyebrow")}
+              </Badge>
+              <h2 className="font-h2 text-neutralswhite text-[length:var(--h2-font-size)] tracking-[var(--h2-letter-spacing)] leading-[var(--h2-line-height)]">
+                {t("roi.title")}
+              </h2>
+            </div>
+
+            <div className="lg:w-1/2">
+              <p className="font-body text-neutralswhite text-[length:var(--body-font-size)] tracking-[var(--body-letter-spacing)] leading-[var(--body-line-height)]">
+                {t("roi.intro")}
+              </p>
+            </div>
+
+            {session.saved && (
+              <RoiResumePrompt
+                session={session.saved}
+                onResume={handleResume}
+                onDismiss={session.dismiss}
+              />
+            )}
+
+            <ScenarioBar
+              scenarioList={scenarioList}
+              activeScenario={activeScenario}
+              presets={presets}
+              onSelect={handleScenarioChange}
+              onDuplicate={handleDuplicate}
+              onRename={renameScenario}
+              onReset={handleReset}
+              onRemove={handleRemove}
+            />
+
+            {shared && shared.warnings.length > 0 && (
+              <div role="status" className="text-sm text-[#d2a0ff]">
+                <p>
+                  {t("roi.linkWarnings", { count: shared.warnings.length })}
+                </p>
+                <ul className="list-disc pl-5">
+                  {shared.warnings.map((warning, index) => (
+                    <li key={index}>{text.linkWarning(warning, format)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-end gap-4 text-sm text-white">
+              <label className="flex flex-col gap-2">
+                {t("roi.currency")}
+                <select
+                  value={currencyCode}
+                  onChange={handleCurrencyChange}
+                  className="h-9 rounded bg-neutralswhite text-neutralsdark px-2"
+                >
+                  {currencies.map((currency) => (
+                    <option key={currency.code} value={currency.code}>
+                      {currency.code} –{" "}
+                      {currencyNames.of(currency.code) ?? currency.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {format.currency.code !== "SGD" && (
+                <p className="text-[#aaa0c2] pb-2">
+                  {t("roi.exchangeRate", {
+                    rate: format.formatNumber(format.currency.perSgd, 4),
+                    code: format.currency.code,
+                    date: exchangeRatesAsOf,
+                  })}
+                </p>
+              )}
+            </div>
+
+            {(Object.keys(roiFieldGroups) as RoiFieldGroup[]).map((group) => (
+              <fieldset key={group} className="flex flex-col gap-4">
+                <legend className="text-[#d2a0ff] text-lg mb-4">
+                  {t(`roi.group.${group}`)}
+                </legend>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {roiFields
+                    .filter((field) => field.group === group)
+                    .map((field) => (
+                      <RoiInputField
+                        key={field.key}
+                        field={field}
+                        value={drafts[field.key]}
+                        issue={fieldErrors[field.key]}
+                        onChange={handleInputChange}
+                        readOnly={
+                          activeScenario.partners !== null &&
+                          partnerTableInputs.includes(field.key)
+                        }
+                      />
+                    ))}
+                </div>
+              </fieldset>
+            ))}
+
+            <RoiPartnerTable
+              key={`${activeScenario.id}-${currencyCode}`}
+              partners={activeScenario.partners}
+              inputs={calculatorValues}
+              onChange={handlePartnersChange}
+              onIssueCountChange={handlePartnerIssues}
+            />
+
+            <PricingPlanPicker
+              selectedPlan={pricingPlan}
+              partners={calculatorValues.num_partners}
+              onSelect={setPlan}
+            />
+
+            <label className="flex items-center gap-3 text-sm text-white mt-6">
+              <input
+                type="checkbox"
+                checked={liveResults}
+                onChange={(e) => setLiveResults(e.target.checked)}
+                className="h-4 w-4 accent-[#d2a0ff]"
+              />
+              {t("roi.live.toggle")}
+            </label>
+
+            {!liveResults && (
+              <RoiPresetDiff
+                key={activeScenario.id}
+                inputs={calculatorValues}
+                presets={presets}
+                presetKey={activeScenario.presetKey ?? "default"}
+              />
+            )}
+
+            {!liveResults && (
+              <Button
+                onClick={handleCalculate}
+                disabled={hasErrors}
+                className="w-full lg:w-auto h-[55px] bg-blue-300 hover:bg-blue-400 text-neutralswhite rounded"
+              >
+                {t("roi.calculate")}
+              </Button>
+            )}
+            {!liveResults && isStale && (
+              <p role="status" className="text-sm text-[#fbbf24]">
+                {t("roi.live.stale")}
+              </p>
+            )}
+            {hasErrors && (
+              <p className="text-sm text-red-400">
+                {t("roi.fixErrors", { count: errorCount })}
+                {liveResults && ` ${t("roi.live.lastValid")}`}
+              </p>
+            )}
+
+            {calculation && (
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                <Button
+                  variant="link"
+                  onClick={handleCopyLink}
+                  disabled={hasErrors}
+                  className="text-[#d2a0ff] px-0"
+                >
+                  {t("roi.copyLink")}
+                </Button>
+                <Button
+                  variant="link"
+                  onClick={handleDownloadPdf}
+                  disabled={exporting}
+                  className="text-[#d2a0ff] px-0"
+                >
+                  {t(exporting ? "roi.preparingPdf" : "roi.downloadPdf")}
+                </Button>
+                <Button
+                  variant="link"
+                  onClick={handleDownloadCsv}
+                  className="text-[#d2a0ff] px-0"
+                >
+                  {t("roi.downloadCsv")}
+                </Button>
+                {linkCopied && (
+                  <span role="status" className="text-[#aaa0c2]">
+                    {t("roi.linkCopied")}
+                  </span>
+                )}
+                {exportError && (
+                  <span role="alert" className="text-red-400">
+                    {t(exportError)}
+                  </span>
+                )}
+                {manualLink && (
+                  <label className="flex w-full flex-col gap-2 text-[#aaa0c2]">
+                    <span role="alert">{t("roi.linkCopyFailed")}</span>
+                    <input
+                      type="text"
+                      readOnly
+                      value={manualLink}
+                      onFocus={(e) => e.target.select()}
+                      className="h-9 w-full rounded bg-neutralswhite text-neutralsdark px-2"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+
+            {calculation && (
+              <div className="flex gap-4 mt-8" role="tablist">
+                {resultsViews.map((view) => (
+                  <Button
+                    key={view}
+                    role="tab"
+                    aria-selected={resultsView === view}
+                    onClick={() => setResultsView(view)}
+                    className={`${resultsView === view ? "bg-blue-300" : "bg-transparent"} text-white border border-white`}
+                  >
+                    {t(`roi.view.${view}`)}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {calculation && (
+              <RoiBreakEvenNotice
+                inputs={calculation.inputs}
+                plan={calculation.plan}
+                result={calculation.result}
+              />
+            )}
+
+            {calculation && (
+              <div
+                className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 transition-opacity ${
+                  !liveResults && isStale ? "opacity-60" : ""
+                }`}
+              >
+                {(Object.keys(metricExplanations) as RoiMetricKey[]).map((key) => {
+                  const metric = text.metric(key);
+                  return (
+                    <div
+                      key={key}
+                      className={`bg-[rgba(255,255,255,0.1)] p-6 rounded-lg cursor-pointer transition-all duration-200 ${
+                        selectedMetric === key ? "ring-2 ring-blue-300" : ""
+                      }`}
+                      onClick={() => handleSelectMetric(key)}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-[#d2a0ff] text-lg">{metric.title}</h4>
+                        <Info className="w-4 h-4 text-[#d2a0ff]" />
+                      </div>
+                      <p
+                        className={`text-2xl font-semibold ${
+                          calculation.result[key] < 0
+                            ? "text-red-400"
+                            : "text-white"
+                        }`}
+                      >
+                        <RoiAnimatedMoney value={calculation.result[key]} />
+                      </p>
+                      {selectedMetric === key && (
+                        <div className="mt-4 text-white text-sm">
+                          <p className="font-semibold mb-2">{t("roi.formula")}</p>
+                          <p className="mb-4 text-[#d2a0ff]">{metric.formula}</p>
+                          <p className="font-semibold mb-2">
+                            {t("roi.whatItMeasures")}
+                          </p>
+                          <p className="mb-4">{metric.what}</p>
+                          <p className="font-semibold mb-2">
+                            {t("roi.whyItMatters")}
+                          </p>
+                          <p className="mb-4">{metric.why}</p>
+                          <p className="italic text-[#d2a0ff]">{metric.hook}</p>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {calculation && resultsView === "annual" && (
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-10 mt-8">
+                <RoiCostBreakdownChart result={calculation.result} />
+                <RoiWaterfallChart result={calculation.result} />
+              </div>
+            )}
+
+            {calculation?.result.partnerBreakdown && resultsView === "annual" && (
+              <RoiPartnerBreakdown
+                breakdown={calculation.result.partnerBreakdown}
+                result={calculation.result}
+              />
+            )}
+
+            {calculation && resultsView === "projection" && (
+              <RoiProjectionPanel inputs={calculation.inputs} plan={calculation.plan} />
+            )}
+
+            {calculation && resultsView === "sensitivity" && (
+              <RoiSensitivityPanel inputs={calculation.inputs} plan={calculation.plan} />
+            )}
+
+            {calculation && resultsView === "goal" && (
+              <RoiGoalSeekPanel
+                key={`${activeScenario.id}-${currencyCode}-${activeScenario.partners === null}`}
+                inputs={calculatorValues}
+                partners={activeScenario.partners}
+                plan={pricingPlan}
+                onApply={handleApplyGoal}
+              />
+            )}
+
+            {calculation && resultsView === "compare" && (
+              <RoiScenarioComparison
+                scenarioList={scenarioList}
+                activeScenarioId={activeScenario.id}
+              />
+            )}
+
+            <RoiSavedDataNotice cleared={session.cleared} onClear={session.clear} />
+          </div>
+        </CardContent>
+      </Card>
+    </RoiFormatContext.Provider>
+  );
+};
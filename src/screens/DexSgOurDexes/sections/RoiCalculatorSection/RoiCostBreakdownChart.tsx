@@ -0,0 +1,202 @@
+import {
+  ChartFigure,
+  ChartTooltip,
+  useChartMarks,
+} from "../../../../components/charts";
+import { useI18n } from "../../../../components/i18n";
+import { bandScale } from "../../../../lib/charts";
+import {
+  costBreakdownStacks,
+  costLineItems,
+  type CostLineItem,
+  type CostStack,
+  type RoiResult,
+} from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { moneyAxis, RoiMoneyAxis } from "./RoiMoneyAxis";
+
+const width = 640;
+const height = 320;
+const margin = { top: 16, right: 16, bottom: 40, left: 88 };
+
+const costItemColors: Record<CostLineItem, string> = {
+  build: "#d2a0ff",
+  maintenance: "#aaa0c2",
+  apiFees: "#818cf8",
+  subscription: "#5eead4",
+  transactionFees: "#60a5fa",
+  compliance: "#fbbf24",
+  errorCost: "#f87171",
+};
+
+export const RoiCostBreakdownChart = ({
+  result,
+}: {
+  result: RoiResult;
+}): JSX.Element => {
+  const format = useRoiFormat();
+  const { formatMoney } = format;
+  const { t } = useI18n();
+  const stacks = costBreakdownStacks(result);
+  const marks = stacks.flatMap((stack) =>
+    stack.segments
+      .filter((segment) => segment.value > 0)
+      .map((segment) => ({ stack, segment })),
+  );
+  const { active, focused, markProps } = useChartMarks(marks.length);
+
+  const axis = moneyAxis(
+    format,
+    stacks.map((stack) => stack.total),
+    [height - margin.bottom, margin.top],
+  );
+  const { y } = axis;
+  const x = bandScale(stacks.length, [margin.left, width - margin.right]);
+  const barWidth = Math.min(x.band * 0.5, 120);
+  const sideName = (stack: CostStack) => t(`roi.chart.costs.${stack.side}`);
+  const markLabel = (stack: CostStack, item: CostLineItem) =>
+    t("roi.chart.costs.segment", {
+      side: sideName(stack),
+      item: t(`roi.chart.item.${item}`),
+    });
+  const activeMark = active === null ? null : marks[active];
+
+  const table = (
+    <table className="w-full text-sm">
+      <caption className="text-left text-[#aaa0c2] mb-2">
+        {t("roi.chart.costs.title")}
+      </caption>
+      <thead>
+        <tr className="border-b border-[rgba(255,255,255,0.2)]">
+          <th scope="col" className="py-2 pr-4 text-left font-normal text-[#d2a0ff]">
+            {t("roi.chart.costs.item")}
+          </th>
+          {stacks.map((stack) => (
+            <th
+              key={stack.side}
+              scope="col"
+              className="py-2 px-4 text-right font-normal text-[#d2a0ff]"
+            >
+              {sideName(stack)}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {costLineItems.map((item) => (
+          <tr key={item} className="border-b border-[rgba(255,255,255,0.1)]">
+            <th scope="row" className="py-2 pr-4 text-left font-normal">
+              {t(`roi.chart.item.${item}`)}
+            </th>
+            {stacks.map((stack) => {
+              const segment = stack.segments.find((s) => s.item === item);
+              return (
+                <td key={stack.side} className="py-2 px-4 text-right">
+                  {segment ? formatMoney(segment.value) : "–"}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        <tr>
+          <th scope="row" className="py-2 pr-4 text-left text-[#d2a0ff]">
+            {t("chart.total")}
+          </th>
+          {stacks.map((stack) => (
+            <td key={stack.side} className="py-2 px-4 text-right">
+              {formatMoney(stack.total)}
+            </td>
+          ))}
+        </tr>
+      </tfoot>
+    </table>
+  );
+
+  const legend = (
+    <ul className="flex flex-wrap gap-x-6 gap-y-2 text-xs">
+      {costLineItems.map((item) => (
+        <li key={item} className="flex items-center gap-2">
+          <span
+            aria-hidden
+            className="inline-block h-3 w-3 rounded-sm"
+            style={{ backgroundColor: costItemColors[item] }}
+          />
+          {t(`roi.chart.item.${item}`)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <ChartFigure
+      title={t("roi.chart.costs.title")}
+      description={t("roi.chart.costs.description")}
+      table={table}
+      legend={legend}
+    >
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        role="group"
+        aria-label={t("roi.chart.costs.title")}
+        className="w-full h-auto overflow-visible"
+      >
+        <RoiMoneyAxis
+          axis={axis}
+          left={margin.left}
+          right={width - margin.right}
+        />
+        {stacks.map((stack, index) => (
+          <text
+            key={stack.side}
+            aria-hidden
+            x={x.center(index)}
+            y={height - margin.bottom + 20}
+            textAnchor="middle"
+            fontSize={12}
+            fill="white"
+          >
+            {sideName(stack)}
+          </text>
+        ))}
+        {marks.map(({ stack, segment }, index) => {
+          const left = x.center(stacks.indexOf(stack)) - barWidth / 2;
+          const top = y(segment.from + segment.value);
+          return (
+            <rect
+              key={`${stack.side}-${segment.item}`}
+              {...markProps(index)}
+              role="img"
+              aria-label={t("chart.value", {
+                label: markLabel(stack, segment.item),
+                value: formatMoney(segment.value),
+              })}
+              x={left}
+              y={top}
+              width={barWidth}
+              height={Math.max(y(segment.from) - top, 1)}
+              fill={costItemColors[segment.item]}
+              stroke={active === index || focused === index ? "white" : "none"}
+              strokeWidth={2}
+              className="outline-none cursor-default"
+            />
+          );
+        })}
+      </svg>
+      {activeMark && (
+        <ChartTooltip
+          x={x.center(stacks.indexOf(activeMark.stack))}
+          y={y(activeMark.segment.from + activeMark.segment.value)}
+          width={width}
+          height={height}
+        >
+          <p className="font-semibold">
+            {markLabel(activeMark.stack, activeMark.segment.item)}
+          </p>
+          <p>{formatMoney(activeMark.segment.value)}</p>
+        </ChartTooltip>
+      )}
+    </ChartFigure>
+  );
+};
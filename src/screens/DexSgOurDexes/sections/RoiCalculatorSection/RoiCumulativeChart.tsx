@@ -0,0 +1,142 @@
+import {
+  ChartFigure,
+  ChartTooltip,
+  useChartMarks,
+} from "../../../../components/charts";
+import { useI18n } from "../../../../components/i18n";
+import { bandScale } from "../../../../lib/charts";
+import { cumulativeSavings, type RoiProjection } from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { moneyAxis, RoiMoneyAxis } from "./RoiMoneyAxis";
+
+const width = 640;
+const height = 280;
+const margin = { top: 16, right: 16, bottom: 40, left: 88 };
+
+export const RoiCumulativeChart = ({
+  projection,
+}: {
+  projection: RoiProjection;
+}): JSX.Element => {
+  const format = useRoiFormat();
+  const { formatMoney } = format;
+  const { t } = useI18n();
+  const points = cumulativeSavings(projection);
+  const { active, focused, markProps } = useChartMarks(points.length);
+
+  const axis = moneyAxis(
+    format,
+    points.map((point) => point.value),
+    [height - margin.bottom, margin.top],
+  );
+  const { y } = axis;
+  const x = bandScale(points.length, [margin.left, width - margin.right]);
+  const yearLabel = (year: number) => t("roi.chart.cumulative.year", { year });
+  const path = points
+    .map(
+      (point, index) =>
+        `${index === 0 ? "M" : "L"}${x.center(index)},${y(point.value)}`,
+    )
+    .join(" ");
+  const activePoint = active === null ? null : points[active];
+
+  const table = (
+    <table className="w-full text-sm">
+      <caption className="text-left text-[#aaa0c2] mb-2">
+        {t("roi.chart.cumulative.title")}
+      </caption>
+      <thead>
+        <tr className="border-b border-[rgba(255,255,255,0.2)]">
+          <th scope="col" className="py-2 pr-4 text-left font-normal text-[#d2a0ff]">
+            {t("roi.projection.year")}
+          </th>
+          <th scope="col" className="py-2 pl-4 text-right font-normal text-[#d2a0ff]">
+            {t("roi.projection.cumulative")}
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {points.map((point) => (
+          <tr key={point.year} className="border-b border-[rgba(255,255,255,0.1)]">
+            <th scope="row" className="py-2 pr-4 text-left font-normal">
+              {point.year}
+            </th>
+            <td className={`py-2 pl-4 text-right ${point.value < 0 ? "text-red-400" : ""}`}>
+              {formatMoney(point.value)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <ChartFigure
+      title={t("roi.chart.cumulative.title")}
+      description={t("roi.chart.cumulative.description")}
+      table={table}
+    >
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        role="group"
+        aria-label={t("roi.chart.cumulative.title")}
+        className="w-full h-auto overflow-visible"
+      >
+        <RoiMoneyAxis
+          axis={axis}
+          left={margin.left}
+          right={width - margin.right}
+        />
+        {points.map((point, index) => (
+          <text
+            key={point.year}
+            aria-hidden
+            x={x.center(index)}
+            y={height - margin.bottom + 20}
+            textAnchor="middle"
+            fontSize={11}
+            fill="white"
+          >
+            {yearLabel(point.year)}
+          </text>
+        ))}
+        <path
+          aria-hidden
+          d={path}
+          fill="none"
+          stroke="#d2a0ff"
+          strokeWidth={2}
+        />
+        {points.map((point, index) => (
+          <circle
+            key={point.year}
+            {...markProps(index)}
+            role="img"
+            aria-label={t("chart.value", {
+              label: yearLabel(point.year),
+              value: formatMoney(point.value),
+            })}
+            cx={x.center(index)}
+            cy={y(point.value)}
+            r={active === index ? 7 : 5}
+            fill={point.value < 0 ? "#f87171" : "#5eead4"}
+            stroke={active === index || focused === index ? "white" : "#160b25"}
+            strokeWidth={2}
+            className="outline-none cursor-default"
+          />
+        ))}
+      </svg>
+      {activePoint && (
+        <ChartTooltip
+          x={x.center(points.indexOf(activePoint))}
+          y={y(activePoint.value) - 8}
+          width={width}
+          height={height}
+        >
+          <p className="font-semibold">{yearLabel(activePoint.year)}</p>
+          <p>{formatMoney(activePoint.value)}</p>
+        </ChartTooltip>
+      )}
+    </ChartFigure>
+  );
+};
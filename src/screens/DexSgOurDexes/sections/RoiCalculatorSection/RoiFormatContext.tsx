@@ -0,0 +1,9 @@
+import { createContext, useContext } from "react";
+import { createRoiFormatter, type RoiFormatter } from "../../../../lib/roi";
+
+// Formatting for the visitor's chosen currency, shared by every results panel
+export const RoiFormatContext = createContext<RoiFormatter>(
+  createRoiFormatter(),
+);
+
+export const useRoiFormat = () => useContext(RoiFormatContext);
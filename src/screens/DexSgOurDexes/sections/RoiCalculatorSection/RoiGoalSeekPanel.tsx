@@ -0,0 +1,311 @@
+import React, { useMemo, useState } from "react";
+import { useI18n } from "../../../../components/i18n";
+import { Button } from "../../../../components/ui/button";
+import { Input } from "../../../../components/ui/input";
+import {
+  metricExplanations,
+  parseLocaleNumber,
+  parseRoiInput,
+  partnerTableInputs,
+  roiFields,
+  roiFieldsByKey,
+  solveForTarget,
+  toSgd,
+  type PricingPlan,
+  type RoiInputKey,
+  type RoiInputs,
+  type RoiMetricKey,
+  type RoiPartner,
+  type SolveRequest,
+} from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { useRoiText } from "./useRoiText";
+
+interface RoiGoalSeekPanelProps {
+  // The form's current values, so a solved value can go straight back in
+  inputs: RoiInputs;
+  partners: RoiPartner[] | null;
+  plan: PricingPlan;
+  onApply: (key: RoiInputKey, value: number) => void;
+}
+
+type GoalSeekErrors = Partial<Record<"target" | "min" | "max", string>>;
+
+const inputClassName = (error?: string) =>
+  `bg-neutralswhite text-neutralsdark h-[55px] rounded ${error ? "border-2 border-red-500" : ""}`;
+
+// Works back from a target result to the value one input would need
+export const RoiGoalSeekPanel = ({
+  inputs,
+  partners,
+  plan,
+  onApply,
+}: RoiGoalSeekPanelProps): JSX.Element => {
+  const format = useRoiFormat();
+  const { t } = useI18n();
+  const text = useRoiText();
+  // The partner table fixes the inputs it supplies
+  const drivers = roiFields.filter(
+    (field) => partners === null || !partnerTableInputs.includes(field.key),
+  );
+
+  const [metric, setMetric] = useState<RoiMetricKey>("totalBenefit");
+  const [targetDraft, setTargetDraft] = useState("");
+  const [driver, setDriver] = useState<RoiInputKey>(drivers[0].key);
+  const [minDraft, setMinDraft] = useState("");
+  const [maxDraft, setMaxDraft] = useState("");
+  const [errors, setErrors] = useState<GoalSeekErrors>({});
+  const [request, setRequest] = useState<SolveRequest | null>(null);
+  const [applied, setApplied] = useState(false);
+
+  // Solved against the form as it is now, so edits elsewhere show up here
+  const outcome = useMemo(
+    () => request && solveForTarget(inputs, request, plan, partners),
+    [inputs, request, plan, partners],
+  );
+
+  const field = roiFieldsByKey[driver];
+  const unit = text.unitLabel(field, format);
+  const fieldName = (key: RoiInputKey) => text.fieldLabel(key);
+  const showValue = (key: RoiInputKey, value: number) =>
+    text.fieldValue(roiFieldsByKey[key], value, format);
+
+  const handleDriverChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setDriver(e.target.value as RoiInputKey);
+    // Bounds are in the old driver's units
+    setMinDraft("");
+    setMaxDraft("");
+    setErrors({});
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const next: GoalSeekErrors = {};
+
+    const typed = parseLocaleNumber(targetDraft, format.currency.locale);
+    if (targetDraft.trim() === "") {
+      next.target = t("roi.error.required", { label: t("roi.goal.target") });
+    } else if (!Number.isFinite(typed)) {
+      next.target = t("roi.error.number");
+    }
+
+    // Blank bounds search the input's whole range
+    const bound = (draft: string, key: "min" | "max") => {
+      if (draft.trim() === "") return field[key];
+      const parsed = parseRoiInput(field, draft, format.currency, format.locale);
+      if (parsed.ok) return parsed.value;
+      next[key] = text.inputError(field, parsed.issue, format);
+      return field[key];
+    };
+    const min = bound(minDraft, "min");
+    const max = bound(maxDraft, "max");
+    if (!next.min && !next.max && min >= max) {
+      next.max = t("roi.goal.error.order");
+    }
+
+    setErrors(next);
+    setApplied(false);
+    if (Object.keys(next).length > 0) return;
+    setRequest({
+      metric,
+      target: toSgd(typed, format.currency),
+      driver,
+      min,
+      max,
+    });
+  };
+
+  const handleApply = () => {
+    if (outcome?.status !== "solved" || !request) return;
+    onApply(request.driver, outcome.value);
+    setApplied(true);
+  };
+
+  const errorId = (name: keyof GoalSeekErrors) => `roi-goal-${name}-error`;
+  const errorText = (name: keyof GoalSeekErrors) =>
+    errors[name] && (
+      <p id={errorId(name)} role="alert" className="mt-1 text-xs text-red-400">
+        {errors[name]}
+      </p>
+    );
+  const boundInput = (
+    name: "min" | "max",
+    value: string,
+    onChange: (value: string) => void,
+  ) => (
+    <div>
+      <label htmlFor={`roi-goal-${name}`} className="text-sm mb-2 block">
+        {t(`roi.goal.${name}`)}
+      </label>
+      <Input
+        id={`roi-goal-${name}`}
+        type="text"
+        inputMode={field.integer ? "numeric" : "decimal"}
+        autoComplete="off"
+        value={value}
+        placeholder={format.formatInputValue(field, field[name])}
+        onChange={(e) => onChange(e.target.value)}
+        aria-invalid={!!errors[name]}
+        aria-describedby={
+          errors[name]
+            ? `roi-goal-bounds-help ${errorId(name)}`
+            : "roi-goal-bounds-help"
+        }
+        className={inputClassName(errors[name])}
+      />
+      {errorText(name)}
+    </div>
+  );
+
+  const describe = (current: SolveRequest) => {
+    const { min, max } = roiFieldsByKey[current.driver];
+    return {
+      driver: fieldName(current.driver),
+      metric: text.metric(current.metric).title,
+      target: format.formatMoney(current.target),
+      min: showValue(current.driver, current.min ?? min),
+      max: showValue(current.driver, current.max ?? max),
+    };
+  };
+
+  return (
+    <div className="flex flex-col gap-8 mt-8 text-white">
+      <div>
+        <h4 className="text-[#d2a0ff] text-lg mb-1">{t("roi.goal.title")}</h4>
+        <p className="text-sm text-[#aaa0c2]">{t("roi.goal.description")}</p>
+        {partners !== null && (
+          <p className="text-sm text-[#aaa0c2] mt-2">{t("roi.goal.fromTable")}</p>
+        )}
+      </div>
+
+      <form noValidate onSubmit={handleSubmit} className="flex flex-col gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <label className="flex flex-col gap-2 text-sm">
+            {t("roi.goal.metric")}
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as RoiMetricKey)}
+              className="h-[55px] rounded bg-neutralswhite text-neutralsdark px-2"
+            >
+              {(Object.keys(metricExplanations) as RoiMetricKey[]).map((key) => (
+                <option key={key} value={key}>
+                  {text.metric(key).title}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div>
+            <label htmlFor="roi-goal-target" className="text-sm mb-2 block">
+              {t("roi.goal.target")}
+              <span className="text-[#aaa0c2]"> ({format.currency.code})</span>
+            </label>
+            <Input
+              id="roi-goal-target"
+              type="text"
+              inputMode="decimal"
+              autoComplete="off"
+              value={targetDraft}
+              onChange={(e) => setTargetDraft(e.target.value)}
+              aria-invalid={!!errors.target}
+              aria-describedby={errors.target ? errorId("target") : undefined}
+              className={inputClassName(errors.target)}
+            />
+            {errorText("target")}
+          </div>
+          <label className="flex flex-col gap-2 text-sm">
+            {t("roi.goal.driver")}
+            <select
+              value={driver}
+              onChange={handleDriverChange}
+              className="h-[55px] rounded bg-neutralswhite text-neutralsdark px-2"
+            >
+              {drivers.map((option) => (
+                <option key={option.key} value={option.key}>
+                  {fieldName(option.key)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <fieldset className="flex flex-col gap-2">
+          <legend className="text-sm text-[#d2a0ff] mb-2">
+            {t("roi.goal.bounds")}
+            {unit && <span className="text-[#aaa0c2]"> ({unit})</span>}
+          </legend>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {boundInput("min", minDraft, setMinDraft)}
+            {boundInput("max", maxDraft, setMaxDraft)}
+          </div>
+          <p id="roi-goal-bounds-help" className="text-xs text-[#aaa0c2]">
+            {t("roi.goal.boundsHelp")}
+          </p>
+        </fieldset>
+
+        <Button
+          type="submit"
+          className="w-full lg:w-auto self-start h-[55px] bg-blue-300 hover:bg-blue-400 text-neutralswhite rounded"
+        >
+          {t("roi.goal.solve")}
+        </Button>
+      </form>
+
+      {request && outcome?.status === "solved" && (
+        <div
+          role="status"
+          className="flex flex-col gap-2 p-6 rounded-lg border border-[#5eead4] bg-[rgba(94,234,212,0.1)]"
+        >
+          <p className="text-lg font-semibold">
+            {t("roi.goal.solved", {
+              ...describe(request),
+              value: showValue(request.driver, outcome.value),
+            })}
+          </p>
+          <p className="text-sm">
+            {t("roi.goal.achieved", {
+              metric: text.metric(request.metric).title,
+              achieved: format.formatMoney(outcome.achieved),
+            })}{" "}
+            {outcome.value === inputs[request.driver]
+              ? t("roi.goal.unchanged")
+              : t("roi.goal.current", {
+                  value: showValue(request.driver, inputs[request.driver]),
+                })}
+          </p>
+          {outcome.value !== inputs[request.driver] && (
+            <Button
+              type="button"
+              onClick={handleApply}
+              className="self-start mt-2 bg-transparent text-white border border-white"
+            >
+              {t("roi.goal.apply")}
+            </Button>
+          )}
+          {applied && (
+            <p className="text-sm text-[#aaa0c2]">
+              {t("roi.goal.applied", { driver: fieldName(request.driver) })}
+            </p>
+          )}
+        </div>
+      )}
+
+      {request && outcome?.status === "infeasible" && (
+        <div
+          role="status"
+          className="flex flex-col gap-2 p-6 rounded-lg border border-red-400 bg-[rgba(248,113,113,0.1)]"
+        >
+          <p className="text-lg font-semibold">
+            {t("roi.goal.infeasible", describe(request))}
+          </p>
+          <p className="text-sm">
+            {t("roi.goal.best", {
+              best: format.formatMoney(outcome.best),
+              value: showValue(request.driver, outcome.bestValue),
+            })}{" "}
+            {t("roi.goal.tryAgain")}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from "react";
+import { useI18n } from "../../../../components/i18n";
+import { Input } from "../../../../components/ui/input";
+import type { RoiField, RoiInputIssue } from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { useRoiText } from "./useRoiText";
+
+interface RoiInputFieldProps {
+  field: RoiField;
+  value: string;
+  issue?: RoiInputIssue;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  // Set by the partner table while it supplies this value
+  readOnly?: boolean;
+}
+
+export const RoiInputField = ({
+  field,
+  value,
+  issue,
+  onChange,
+  readOnly = false,
+}: RoiInputFieldProps): JSX.Element => {
+  const format = useRoiFormat();
+  const { t } = useI18n();
+  const text = useRoiText();
+  const unit = text.unitLabel(field, format);
+  // Translated at render so a language switch updates it too
+  const error = issue && text.inputError(field, issue, format);
+  const inputId = `roi-${field.key}`;
+  const helpId = `${inputId}-help`;
+  const errorId = `${inputId}-error`;
+
+  return (
+    <div>
+      <label htmlFor={inputId} className="text-sm mb-2 block text-white">
+        {text.fieldLabel(field.key)}
+        {unit && <span className="text-[#aaa0c2]"> ({unit})</span>}
+      </label>
+      <Input
+        id={inputId}
+        name={field.key}
+        type="text"
+        inputMode={field.integer ? "numeric" : "decimal"}
+        autoComplete="off"
+        value={value}
+        onChange={onChange}
+        readOnly={readOnly}
+        aria-invalid={!!error}
+        aria-describedby={error ? `${helpId} ${errorId}` : helpId}
+        className={`${
+          readOnly ? "bg-[#d9d4e3]" : "bg-neutralswhite"
+        } text-neutralsdark h-[55px] rounded ${
+          error ? "border-2 border-red-500" : ""
+        }`}
+      />
+      <p id={helpId} className="mt-1 text-xs text-[#aaa0c2]">
+        {readOnly ? t("roi.partners.fromTable") : text.fieldHelp(field.key)}
+      </p>
+      {error && (
+        <p id={errorId} role="alert" className="mt-1 text-xs text-red-400">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
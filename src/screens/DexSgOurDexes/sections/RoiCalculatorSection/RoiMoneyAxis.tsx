@@ -0,0 +1,69 @@
+import { linearScale } from "../../../../lib/charts";
+import { fromSgd, toSgd, type RoiFormatter } from "../../../../lib/roi";
+
+export interface MoneyAxis {
+  // Position of an SGD amount
+  y: (sgd: number) => number;
+  ticks: { position: number; label: string }[];
+}
+
+// Scaled in the display currency, so ticks land on round local amounts
+export const moneyAxis = (
+  format: RoiFormatter,
+  sgdValues: number[],
+  range: [number, number],
+): MoneyAxis => {
+  const { currency } = format;
+  const scale = linearScale(
+    sgdValues.map((sgd) => fromSgd(sgd, currency)),
+    range,
+  );
+  return {
+    y: (sgd) => scale(fromSgd(sgd, currency)),
+    ticks: scale.ticks.map((tick) => ({
+      position: scale(tick),
+      label: format.formatMoney(toSgd(tick, currency), { compact: true }),
+    })),
+  };
+};
+
+interface RoiMoneyAxisProps {
+  axis: MoneyAxis;
+  left: number;
+  right: number;
+}
+
+// Gridlines with their amounts; the zero line is drawn brighter
+export const RoiMoneyAxis = ({
+  axis,
+  left,
+  right,
+}: RoiMoneyAxisProps): JSX.Element => (
+  <g aria-hidden>
+    {axis.ticks.map((tick) => (
+      <g key={tick.position}>
+        <line
+          x1={left}
+          x2={right}
+          y1={tick.position}
+          y2={tick.position}
+          stroke={
+            tick.position === axis.y(0)
+              ? "rgba(255,255,255,0.6)"
+              : "rgba(255,255,255,0.15)"
+          }
+        />
+        <text
+          x={left - 8}
+          y={tick.position}
+          textAnchor="end"
+          dominantBaseline="middle"
+          fontSize={11}
+          fill="#aaa0c2"
+        >
+          {tick.label}
+        </text>
+      </g>
+    ))}
+  </g>
+);
@@ -0,0 +1,129 @@
+import { useI18n } from "../../../../components/i18n";
+import type {
+  PartnerBreakdown,
+  RoiBenefits,
+  RoiMetricKey,
+  RoiResult,
+} from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { useRoiText } from "./useRoiText";
+
+interface RoiPartnerBreakdownProps {
+  breakdown: PartnerBreakdown;
+  result: RoiResult;
+}
+
+const columns: RoiMetricKey[] = [
+  "revenueSaving",
+  "costSaving",
+  "riskSaving",
+  "totalBenefit",
+];
+
+// Each partner's share of the annual figures, largest benefit first
+export const RoiPartnerBreakdown = ({
+  breakdown,
+  result,
+}: RoiPartnerBreakdownProps): JSX.Element => {
+  const { formatMoney, formatNumber } = useRoiFormat();
+  const { t, formatNumber: formatPercent } = useI18n();
+  const text = useRoiText();
+  // Unnamed rows keep the number they have in the partner table
+  const rows = breakdown.partners
+    .map((row, index) => ({
+      ...row,
+      name: row.partner.name || t("roi.partners.defaultName", { number: index + 1 }),
+    }))
+    .sort((a, b) => b.totalBenefit - a.totalBenefit);
+
+  // Shares are left blank when the total isn't a gain to share out
+  const share = (benefit: number) =>
+    result.totalBenefit > 0
+      ? formatPercent(benefit / result.totalBenefit, {
+          style: "percent",
+          maximumFractionDigits: 1,
+        })
+      : "–";
+
+  const moneyCells = (benefits: RoiBenefits) =>
+    columns.map((key) => (
+      <td key={key} className="py-2 px-4 text-right">
+        <span className={benefits[key] < 0 ? "text-red-400" : ""}>
+          {formatMoney(benefits[key])}
+        </span>
+      </td>
+    ));
+
+  return (
+    <section className="flex flex-col gap-4 mt-8 text-white">
+      <h3 className="text-[#d2a0ff] text-lg">{t("roi.breakdown.title")}</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <caption className="text-left text-[#aaa0c2] mb-2">
+            {t("roi.breakdown.caption")}
+          </caption>
+          <thead>
+            <tr className="border-b border-[rgba(255,255,255,0.2)]">
+              <th scope="col" className="py-2 pr-4 text-left font-normal text-[#d2a0ff]">
+                {t("roi.breakdown.partner")}
+              </th>
+              <th scope="col" className="py-2 px-4 text-right font-normal text-[#d2a0ff]">
+                {t("roi.breakdown.transactions")}
+              </th>
+              {columns.map((key) => (
+                <th
+                  key={key}
+                  scope="col"
+                  className="py-2 px-4 text-right font-normal text-[#d2a0ff]"
+                >
+                  {text.metric(key).title}
+                </th>
+              ))}
+              <th scope="col" className="py-2 pl-4 text-right font-normal text-[#d2a0ff]">
+                {t("roi.breakdown.share")}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.partner.id} className="border-b border-[rgba(255,255,255,0.1)]">
+                <th scope="row" className="py-2 pr-4 text-left font-normal">
+                  {row.name}
+                </th>
+                <td className="py-2 px-4 text-right">
+                  {formatNumber(row.annualTransactions)}
+                </td>
+                {moneyCells(row)}
+                <td className="py-2 pl-4 text-right">{share(row.totalBenefit)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-b border-[rgba(255,255,255,0.1)]">
+              <th scope="row" className="py-2 pr-4 text-left font-normal text-[#aaa0c2]">
+                {t("roi.breakdown.shared")}
+              </th>
+              <td />
+              {moneyCells(breakdown.shared)}
+              <td className="py-2 pl-4 text-right">
+                {share(breakdown.shared.totalBenefit)}
+              </td>
+            </tr>
+            <tr>
+              <th scope="row" className="py-2 pr-4 text-left text-[#d2a0ff]">
+                {t("roi.breakdown.total")}
+              </th>
+              <td className="py-2 px-4 text-right">
+                {formatNumber(
+                  rows.reduce((total, row) => total + row.annualTransactions, 0),
+                )}
+              </td>
+              {moneyCells(result)}
+              <td />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </section>
+  );
+};
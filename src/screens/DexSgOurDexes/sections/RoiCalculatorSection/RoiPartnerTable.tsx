@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { useI18n } from "../../../../components/i18n";
+import { Button } from "../../../../components/ui/button";
+import { Input } from "../../../../components/ui/input";
+import {
+  createPartner,
+  maxPartnerRows,
+  parsePartnerCsv,
+  parseRoiInput,
+  partnerColumns,
+  partnersFromInputs,
+  type PartnerCsvIssue,
+  type RoiInputIssue,
+  type RoiInputs,
+  type RoiPartner,
+  type RoiPartnerKey,
+} from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { useRoiText } from "./useRoiText";
+
+interface RoiPartnerTableProps {
+  partners: RoiPartner[] | null;
+  // The scenario's inputs; new rows start from their averages
+  inputs: RoiInputs;
+  onChange: (partners: RoiPartner[] | null) => void;
+  // Number of cells holding a value that can't be used
+  onIssueCountChange: (count: number) => void;
+}
+
+type ImportStatus =
+  | { kind: "imported"; count: number }
+  | { kind: "empty" }
+  | { kind: "failed"; issues: PartnerCsvIssue[] };
+
+const cellId = (partner: RoiPartner, key: RoiPartnerKey) =>
+  `${partner.id}:${key}`;
+
+// Shown before the import is refused, so a bad paste doesn't fill the page
+const maxListedIssues = 5;
+
+// Remounted by the calculator when the scenario or currency changes, so the
+// typed values below always belong to the rows shown
+export const RoiPartnerTable = ({
+  partners,
+  inputs,
+  onChange,
+  onIssueCountChange,
+}: RoiPartnerTableProps): JSX.Element => {
+  const format = useRoiFormat();
+  const { t } = useI18n();
+  const text = useRoiText();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [issues, setIssues] = useState<Record<string, RoiInputIssue>>({});
+  const [pasted, setPasted] = useState("");
+  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+
+  const partnerName = (index: number) =>
+    t("roi.partners.defaultName", { number: index + 1 });
+
+  // Issues on rows that have since been removed no longer count
+  const issueCount = (partners ?? []).reduce(
+    (count, partner) =>
+      count +
+      partnerColumns.filter(({ key }) => issues[cellId(partner, key)]).length,
+    0,
+  );
+
+  useEffect(() => {
+    onIssueCountChange(issueCount);
+  }, [issueCount, onIssueCountChange]);
+
+  if (partners === null) {
+    return (
+      <div className="flex flex-col gap-4 text-white">
+        <h3 className="text-[#d2a0ff] text-lg">{t("roi.partners.title")}</h3>
+        <p className="text-sm text-[#aaa0c2] lg:w-2/3">
+          {t("roi.partners.intro")}
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onChange(partnersFromInputs(inputs, partnerName))}
+          className="w-fit bg-transparent text-white border-white"
+        >
+          {t("roi.partners.setUp")}
+        </Button>
+      </div>
+    );
+  }
+
+  const updatePartner = (id: string, update: Partial<RoiPartner>) =>
+    onChange(
+      partners.map((partner) =>
+        partner.id === id ? { ...partner, ...update } : partner,
+      ),
+    );
+
+  const handleCellChange = (
+    partner: RoiPartner,
+    column: (typeof partnerColumns)[number],
+    value: string,
+  ) => {
+    const id = cellId(partner, column.key);
+    const parsed = parseRoiInput(
+      column.field,
+      value,
+      format.currency,
+      format.locale,
+    );
+    setDrafts((prev) => ({ ...prev, [id]: value }));
+    setIssues((prev) => {
+      const { [id]: _removed, ...rest } = prev;
+      return parsed.ok ? rest : { ...rest, [id]: parsed.issue };
+    });
+    if (parsed.ok) updatePartner(partner.id, { [column.key]: parsed.value });
+  };
+
+  const handleAdd = () =>
+    onChange([...partners, createPartner(inputs, partnerName(partners.length))]);
+
+  const handleRemove = (id: string) =>
+    onChange(partners.filter((partner) => partner.id !== id));
+
+  const handleImport = () => {
+    const parsed = parsePartnerCsv(
+      pasted,
+      format.currency,
+      partnerName,
+      format.locale,
+    );
+    if (parsed.issues.length > 0) {
+      setImportStatus({ kind: "failed", issues: parsed.issues });
+    } else if (parsed.partners.length === 0) {
+      setImportStatus({ kind: "empty" });
+    } else {
+      setDrafts({});
+      setIssues({});
+      setPasted("");
+      onChange(parsed.partners);
+      setImportStatus({ kind: "imported", count: parsed.partners.length });
+    }
+  };
+
+  const describeIssue = (issue: PartnerCsvIssue) => {
+    switch (issue.issue.type) {
+      case "columns":
+        return t("roi.partners.paste.lineColumns", {
+          line: issue.line,
+          expected: issue.issue.expected,
+        });
+      case "tooMany":
+        return t("roi.partners.paste.tooMany", { max: issue.issue.max });
+      default: {
+        const column = partnerColumns.find(({ key }) => key === issue.column);
+        if (!column) return "";
+        return t("roi.partners.paste.lineIssue", {
+          line: issue.line,
+          column: t(`roi.partners.column.${column.key}`),
+          message: text.inputError(column.field, issue.issue, format),
+        });
+      }
+    }
+  };
+
+  const columnHeading = (column: (typeof partnerColumns)[number]) => {
+    const unit = text.unitLabel(column.field, format);
+    return unit
+      ? `${t(`roi.partners.column.${column.key}`)} (${unit})`
+      : t(`roi.partners.column.${column.key}`);
+  };
+
+  return (
+    <fieldset className="flex flex-col gap-4 text-white">
+      <legend className="text-[#d2a0ff] text-lg mb-4">
+        {t("roi.partners.title")}
+      </legend>
+      <p className="text-sm text-[#aaa0c2]">
+        {t("roi.partners.count", { count: partners.length })}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-[rgba(255,255,255,0.2)]">
+              <th scope="col" className="py-2 pr-4 text-left font-normal text-[#d2a0ff]">
+                {t("roi.partners.column.name")}
+              </th>
+              {partnerColumns.map((column) => (
+                <th
+                  key={column.key}
+                  scope="col"
+                  className="py-2 px-2 text-left font-normal text-[#d2a0ff]"
+                >
+                  {columnHeading(column)}
+                </th>
+              ))}
+              <td />
+            </tr>
+          </thead>
+          <tbody>
+            {partners.map((partner, index) => {
+              const rowName = partner.name || partnerName(index);
+              return (
+                <tr
+                  key={partner.id}
+                  className="border-b border-[rgba(255,255,255,0.1)] align-top"
+                >
+                  <td className="py-2 pr-4 min-w-[160px]">
+                    <Input
+                      value={partner.name}
+                      placeholder={partnerName(index)}
+                      aria-label={t("roi.partners.column.name")}
+                      onChange={(e) =>
+                        updatePartner(partner.id, { name: e.target.value })
+                      }
+                      className="bg-neutralswhite text-neutralsdark h-10 rounded"
+                    />
+                  </td>
+                  {partnerColumns.map((column) => {
+                    const id = cellId(partner, column.key);
+                    const issue = issues[id];
+                    const errorId = `roi-partner-${id}-error`;
+                    return (
+                      <td key={column.key} className="py-2 px-2 min-w-[130px]">
+                        <Input
+                          type="text"
+                          inputMode={column.field.integer ? "numeric" : "decimal"}
+                          autoComplete="off"
+                          value={
+                            drafts[id] ??
+                            format.formatInputValue(column.field, partner[column.key])
+                          }
+                          onChange={(e) =>
+                            handleCellChange(partner, column, e.target.value)
+                          }
+                          aria-label={`${rowName}: ${t(`roi.partners.column.${column.key}`)}`}
+                          aria-invalid={!!issue}
+                          aria-describedby={issue ? errorId : undefined}
+                          className={`bg-neutralswhite text-neutralsdark h-10 rounded ${
+                            issue ? "border-2 border-red-500" : ""
+                          }`}
+                        />
+                        {issue && (
+                          <p id={errorId} role="alert" className="mt-1 text-xs text-red-400">
+                            {text.inputError(column.field, issue, format)}
+                          </p>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="py-2 pl-2">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemove(partner.id)}
+                      disabled={partners.length <= 1}
+                      aria-label={t("roi.partners.remove", { name: rowName })}
+                      className="h-10 w-10 text-white hover:bg-[rgba(255,255,255,0.1)] hover:text-white"
+                    >
+                      <Trash2 aria-hidden />
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleAdd}
+          disabled={partners.length >= maxPartnerRows}
+          className="bg-transparent text-white border-white"
+        >
+          {t("roi.partners.add")}
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          onClick={() => onChange(null)}
+          className="text-[#d2a0ff] px-0"
+        >
+          {t("roi.partners.useAverages")}
+        </Button>
+      </div>
+
+      <div className="flex flex-col gap-2 mt-2">
+        <label htmlFor="roi-partner-paste" className="text-sm">
+          {t("roi.partners.paste.label")}
+        </label>
+        <p id="roi-partner-paste-help" className="text-xs text-[#aaa0c2]">
+          {t("roi.partners.paste.help", { currency: format.currency.code })}
+        </p>
+        <textarea
+          id="roi-partner-paste"
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          aria-describedby="roi-partner-paste-help"
+          rows={4}
+          spellCheck={false}
+          className="rounded bg-neutralswhite text-neutralsdark p-3 font-mono text-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleImport}
+          className="w-fit bg-transparent text-white border-white"
+        >
+          {t("roi.partners.paste.import")}
+        </Button>
+        {importStatus?.kind === "imported" && (
+          <p role="status" className="text-sm text-[#aaa0c2]">
+            {t("roi.partners.paste.imported", { count: importStatus.count })}
+          </p>
+        )}
+        {importStatus?.kind === "empty" && (
+          <p role="alert" className="text-sm text-red-400">
+            {t("roi.partners.paste.empty")}
+          </p>
+        )}
+        {importStatus?.kind === "failed" && (
+          <div role="alert" className="text-sm text-red-400">
+            <p>{t("roi.partners.paste.failed")}</p>
+            <ul className="list-disc pl-5">
+              {importStatus.issues.slice(0, maxListedIssues).map((issue, index) => (
+                <li key={index}>{describeIssue(issue)}</li>
+              ))}
+            </ul>
+            {importStatus.issues.length > maxListedIssues && (
+              <p>
+                {t("roi.partners.paste.more", {
+                  count: importStatus.issues.length - maxListedIssues,
+                })}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </fieldset>
+  );
+};
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useI18n } from "../../../../components/i18n";
+import {
+  changedInputs,
+  roiFieldsByKey,
+  type RoiField,
+  type RoiInputs,
+  type ScenarioKey,
+  type ScenarioPresets,
+} from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { useRoiText } from "./useRoiText";
+
+interface RoiPresetDiffProps {
+  inputs: RoiInputs;
+  presets: ScenarioPresets;
+  // The preset compared with first; the visitor can pick another
+  presetKey: ScenarioKey;
+}
+
+// Each input that differs from a preset, with the preset's value beside it
+export const RoiPresetDiff = ({
+  inputs,
+  presets,
+  presetKey,
+}: RoiPresetDiffProps): JSX.Element => {
+  const format = useRoiFormat();
+  const { t } = useI18n();
+  const text = useRoiText();
+  const [compareWith, setCompareWith] = useState(presetKey);
+  const preset = presets[compareWith];
+  const changed = changedInputs(inputs, preset);
+  const presetName = t(`roi.preset.${compareWith}`);
+
+  const formatChange = (field: RoiField, delta: number) =>
+    `${delta > 0 ? "+" : "−"}${text.fieldValue(field, Math.abs(delta), format)}`;
+
+  return (
+    <section
+      aria-labelledby="roi-diff-title"
+      className="flex flex-col gap-4 rounded-lg bg-[rgba(255,255,255,0.05)] p-6 text-white"
+    >
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h3 id="roi-diff-title" className="text-lg text-[#d2a0ff]">
+            {t("roi.diff.title")}
+          </h3>
+          <p className="text-sm text-[#aaa0c2]">
+            {changed.length === 0
+              ? t("roi.diff.none", { preset: presetName })
+              : t("roi.diff.count", { count: changed.length, preset: presetName })}
+          </p>
+        </div>
+        <label className="flex flex-col gap-2 text-sm">
+          {t("roi.diff.compareWith")}
+          <select
+            value={compareWith}
+            onChange={(e) => setCompareWith(e.target.value as ScenarioKey)}
+            className="h-9 rounded bg-neutralswhite text-neutralsdark px-2"
+          >
+            {(Object.keys(presets) as ScenarioKey[]).map((key) => (
+              <option key={key} value={key}>
+                {t(`roi.preset.${key}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {changed.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-[rgba(255,255,255,0.2)]">
+                <th scope="col" className="py-2 pr-4 text-left font-normal text-[#d2a0ff]">
+                  {t("roi.diff.input")}
+                </th>
+                <th scope="col" className="py-2 px-4 text-right font-normal text-[#d2a0ff]">
+                  {presetName}
+                </th>
+                <th scope="col" className="py-2 px-4 text-right font-normal text-[#d2a0ff]">
+                  {t("roi.diff.yours")}
+                </th>
+                <th scope="col" className="py-2 pl-4 text-right font-normal text-[#d2a0ff]">
+                  {t("roi.diff.change")}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {changed.map((key) => {
+                const field = roiFieldsByKey[key];
+                return (
+                  <tr key={key} className="border-b border-[rgba(255,255,255,0.1)]">
+                    <th scope="row" className="py-2 pr-4 text-left font-normal">
+                      {text.fieldLabel(key)}
+                    </th>
+                    <td className="py-2 px-4 text-right text-[#aaa0c2]">
+                      {text.fieldValue(field, preset[key], format)}
+                    </td>
+                    <td className="py-2 px-4 text-right">
+                      {text.fieldValue(field, inputs[key], format)}
+                    </td>
+                    <td className="py-2 pl-4 text-right">
+                      {formatChange(field, inputs[key] - preset[key])}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,256 @@
+import React, { useState } from "react";
+import { useI18n } from "../../../../components/i18n";
+import { Button } from "../../../../components/ui/button";
+import { Input } from "../../../../components/ui/input";
+import {
+  calculateProjection,
+  defaultProjectionOptions,
+  formatPercent,
+  parseLocaleNumber,
+  projectionYearChoices,
+  type PricingPlan,
+  type ProjectionOptions,
+  type RoiInputs,
+} from "../../../../lib/roi";
+import type { MessageKey, Translator } from "../../../../lib/i18n";
+import { RoiCumulativeChart } from "./RoiCumulativeChart";
+import { useRoiFormat } from "./RoiFormatContext";
+
+interface RoiProjectionPanelProps {
+  inputs: RoiInputs;
+  plan: PricingPlan;
+}
+
+type RateKey = "discountRatePct" | "partnerGrowthPct";
+
+const rateFields: {
+  key: RateKey;
+  label: MessageKey;
+  min: number;
+  max: number;
+}[] = [
+  {
+    key: "discountRatePct",
+    label: "roi.projection.discountRate",
+    min: 0,
+    max: 50,
+  },
+  {
+    key: "partnerGrowthPct",
+    label: "roi.projection.partnerGrowth",
+    min: -50,
+    max: 200,
+  },
+];
+
+const formatPayback = (
+  months: number | null,
+  years: number,
+  t: Translator["t"],
+) => {
+  if (months === null) return t("roi.projection.paybackNever", { count: years });
+  if (months === 0) return t("roi.projection.paybackImmediate");
+  return t("roi.projection.paybackMonth", { month: months });
+};
+
+export const RoiProjectionPanel = ({
+  inputs,
+  plan,
+}: RoiProjectionPanelProps): JSX.Element => {
+  const [options, setOptions] = useState<ProjectionOptions>(
+    defaultProjectionOptions,
+  );
+  const [rateDrafts, setRateDrafts] = useState({
+    discountRatePct: String(defaultProjectionOptions.discountRatePct),
+    partnerGrowthPct: String(defaultProjectionOptions.partnerGrowthPct),
+  });
+  const [rateErrors, setRateErrors] = useState<Partial<Record<RateKey, string>>>(
+    {},
+  );
+
+  const { formatMoney, formatNumber, locale } = useRoiFormat();
+  const { t } = useI18n();
+  const projection = calculateProjection(inputs, plan, options);
+
+  const handleRateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const key = e.target.name as RateKey;
+    const { value } = e.target;
+    const field = rateFields.find((rate) => rate.key === key);
+    if (!field) return;
+    const parsed = parseLocaleNumber(value, locale);
+    const valid =
+      Number.isFinite(parsed) && parsed >= field.min && parsed <= field.max;
+
+    setRateDrafts((prev) => ({ ...prev, [key]: value }));
+    setRateErrors((prev) => ({
+      ...prev,
+      [key]: valid
+        ? undefined
+        : t("roi.projection.rateRange", { min: field.min, max: field.max }),
+    }));
+    if (valid) {
+      setOptions((prev) => ({ ...prev, [key]: parsed }));
+    }
+  };
+
+  const summary = [
+    {
+      label: t("roi.projection.implementationFee"),
+      value: formatMoney(projection.implementationFee),
+    },
+    {
+      label: t("roi.projection.payback"),
+      value: formatPayback(projection.paybackMonth, options.years, t),
+    },
+    {
+      label: t("roi.projection.npv", { rate: options.discountRatePct }),
+      value: formatMoney(projection.npv),
+    },
+    {
+      label: t("roi.projection.irr"),
+      value:
+        projection.irr === null
+          ? t("roi.projection.notApplicable")
+          : formatPercent(projection.irr),
+    },
+  ];
+
+  return (
+    <div className="flex flex-col gap-6 mt-8">
+      <div className="flex flex-wrap items-end gap-6">
+        <div>
+          <p className="text-sm mb-2 text-white">{t("roi.projection.length")}</p>
+          <div className="flex gap-2">
+            {projectionYearChoices.map((years) => (
+              <Button
+                key={years}
+                onClick={() => setOptions((prev) => ({ ...prev, years }))}
+                className={`${options.years === years ? "bg-blue-300" : "bg-transparent"} text-white border border-white`}
+              >
+                {t("roi.projection.years", { count: years })}
+              </Button>
+            ))}
+          </div>
+        </div>
+        {rateFields.map((field) => (
+          <div key={field.key}>
+            <label
+              htmlFor={`projection-${field.key}`}
+              className="text-sm mb-2 block text-white"
+            >
+              {t(field.label)} <span className="text-[#aaa0c2]">(%)</span>
+            </label>
+            <Input
+              id={`projection-${field.key}`}
+              name={field.key}
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={rateDrafts[field.key]}
+              onChange={handleRateChange}
+              aria-invalid={!!rateErrors[field.key]}
+              className={`bg-neutralswhite text-neutralsdark h-9 w-40 rounded ${
+                rateErrors[field.key] ? "border-2 border-red-500" : ""
+              }`}
+            />
+            {rateErrors[field.key] && (
+              <p role="alert" className="mt-1 text-xs text-red-400">
+                {rateErrors[field.key]}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {summary.map((item) => (
+          <div key={item.label} className="bg-[rgba(255,255,255,0.1)] p-6 rounded-lg">
+            <h4 className="text-[#d2a0ff] text-lg mb-2">{item.label}</h4>
+            <p className="text-white text-2xl font-semibold">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <RoiCumulativeChart projection={projection} />
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-white">
+          <caption className="text-left text-[#aaa0c2] mb-2">
+            {t("roi.projection.caption")}
+          </caption>
+          <thead>
+            <tr className="text-[#d2a0ff] text-left border-b border-[rgba(255,255,255,0.2)]">
+              <th scope="col" className="py-2 pr-4">
+                {t("roi.projection.year")}
+              </th>
+              <th scope="col" className="py-2 pr-4 text-right">
+                {t("roi.projection.partners")}
+              </th>
+              <th scope="col" className="py-2 pr-4 text-right">
+                {t("roi.projection.legacyCost")}
+              </th>
+              <th scope="col" className="py-2 pr-4 text-right">
+                {t("roi.projection.platformCost")}
+              </th>
+              <th scope="col" className="py-2 pr-4 text-right">
+                {t("roi.metric.costSaving.title")}
+              </th>
+              <th scope="col" className="py-2 pr-4 text-right">
+                {t("roi.metric.revenueSaving.title")}
+              </th>
+              <th scope="col" className="py-2 pr-4 text-right">
+                {t("roi.projection.netCashFlow")}
+              </th>
+              <th scope="col" className="py-2 text-right">
+                {t("roi.projection.cumulative")}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-[rgba(255,255,255,0.1)]">
+              <th scope="row" className="py-2 pr-4 text-left font-normal">0</th>
+              <td className="py-2 pr-4 text-right">–</td>
+              <td className="py-2 pr-4 text-right">–</td>
+              <td className="py-2 pr-4 text-right">
+                {formatMoney(projection.implementationFee)}
+              </td>
+              <td className="py-2 pr-4 text-right">–</td>
+              <td className="py-2 pr-4 text-right">–</td>
+              <td className="py-2 pr-4 text-right">
+                {formatMoney(-projection.implementationFee)}
+              </td>
+              <td className="py-2 text-right">
+                {formatMoney(-projection.implementationFee)}
+              </td>
+            </tr>
+            {projection.years.map((year) => (
+              <tr key={year.year} className="border-b border-[rgba(255,255,255,0.1)]">
+                <th scope="row" className="py-2 pr-4 text-left font-normal">
+                  {year.year}
+                </th>
+                <td className="py-2 pr-4 text-right">
+                  {formatNumber(year.partners)}
+                  {year.newPartners > 0 && (
+                    <span className="text-[#aaa0c2]"> (+{year.newPartners})</span>
+                  )}
+                </td>
+                <td className="py-2 pr-4 text-right">{formatMoney(year.legacyCost)}</td>
+                <td className="py-2 pr-4 text-right">{formatMoney(year.platformCost)}</td>
+                <td className="py-2 pr-4 text-right">{formatMoney(year.costSaving)}</td>
+                <td className="py-2 pr-4 text-right">{formatMoney(year.revenueUplift)}</td>
+                <td className="py-2 pr-4 text-right">{formatMoney(year.netCashFlow)}</td>
+                <td
+                  className={`py-2 text-right ${
+                    year.cumulativeCashFlow < 0 ? "text-red-400" : ""
+                  }`}
+                >
+                  {formatMoney(year.cumulativeCashFlow)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import { useI18n } from "../../../../components/i18n";
+import { Button } from "../../../../components/ui/button";
+import type { CalculatorSession } from "../../../../lib/roi";
+
+interface RoiResumePromptProps {
+  session: CalculatorSession;
+  onResume: () => void;
+  onDismiss: () => void;
+}
+
+export const RoiResumePrompt = ({
+  session,
+  onResume,
+  onDismiss,
+}: RoiResumePromptProps): JSX.Element => {
+  const { t, formatDate } = useI18n();
+
+  return (
+    <section
+      aria-labelledby="roi-resume-title"
+      className="flex flex-col gap-4 rounded-lg border border-[#d2a0ff] bg-[rgba(210,160,255,0.1)] p-6 text-white lg:flex-row lg:items-center lg:justify-between"
+    >
+      <div>
+        <h3 id="roi-resume-title" className="text-lg text-[#d2a0ff]">
+          {t("roi.session.resumeTitle")}
+        </h3>
+        <p className="text-sm text-[#aaa0c2]">
+          {t("roi.session.resumeDetails", {
+            date: formatDate(new Date(session.savedAt), {
+              dateStyle: "medium",
+              timeStyle: "short",
+            }),
+            count: session.scenarios.length,
+          })}
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        <Button
+          type="button"
+          onClick={onResume}
+          className="bg-blue-300 hover:bg-blue-400 text-neutralswhite"
+        >
+          {t("roi.session.resume")}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onDismiss}
+          className="bg-transparent text-white border-white"
+        >
+          {t("roi.session.startFresh")}
+        </Button>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,30 @@
+import { useI18n } from "../../../../components/i18n";
+import { Button } from "../../../../components/ui/button";
+
+interface RoiSavedDataNoticeProps {
+  cleared: boolean;
+  onClear: () => void;
+}
+
+// Says where the calculator keeps its data and lets the visitor remove it
+export const RoiSavedDataNotice = ({
+  cleared,
+  onClear,
+}: RoiSavedDataNoticeProps): JSX.Element => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 border-t border-[rgba(255,255,255,0.2)] pt-6 text-sm text-[#aaa0c2]">
+      <p>{t("roi.session.notice")}</p>
+      <Button
+        type="button"
+        variant="link"
+        onClick={onClear}
+        className="text-[#d2a0ff] px-0"
+      >
+        {t("roi.session.clear")}
+      </Button>
+      {cleared && <p role="status">{t("roi.session.cleared")}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useI18n } from "../../../../components/i18n";
+import {
+  compareScenarios,
+  getPricingPlan,
+  metricExplanations,
+  type RoiMetricKey,
+  type RoiScenario,
+} from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { useRoiText } from "./useRoiText";
+
+interface RoiScenarioComparisonProps {
+  scenarioList: RoiScenario[];
+  activeScenarioId: string;
+}
+
+export const RoiScenarioComparison = ({
+  scenarioList,
+  activeScenarioId,
+}: RoiScenarioComparisonProps): JSX.Element => {
+  const { formatMoney } = useRoiFormat();
+  const { t } = useI18n();
+  const text = useRoiText();
+  const [hiddenIds, setHiddenIds] = useState<string[]>([]);
+  const [baselineId, setBaselineId] = useState(activeScenarioId);
+
+  const visible = scenarioList.filter(
+    (scenario) => !hiddenIds.includes(scenario.id),
+  );
+  const comparison = compareScenarios(visible, baselineId);
+  const baseline =
+    visible.find((scenario) => scenario.id === baselineId) ?? visible[0];
+
+  const formatDelta = (delta: number) =>
+    `${delta > 0 ? "+" : delta < 0 ? "−" : "±"}${formatMoney(Math.abs(delta))}`;
+
+  const toggle = (id: string) =>
+    setHiddenIds((prev) =>
+      prev.includes(id) ? prev.filter((hidden) => hidden !== id) : [...prev, id],
+    );
+
+  return (
+    <div className="flex flex-col gap-6 mt-8 text-white">
+      <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm">
+        <span className="text-[#d2a0ff]">{t("roi.compare.label")}</span>
+        {scenarioList.map((scenario) => (
+          <label key={scenario.id} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!hiddenIds.includes(scenario.id)}
+              onChange={() => toggle(scenario.id)}
+            />
+            {text.scenarioName(scenario)}
+          </label>
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-[#aaa0c2]">{t("roi.compare.selectOne")}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <caption className="text-left text-[#aaa0c2] mb-2">
+              {t("roi.compare.caption", {
+                baseline: text.scenarioName(baseline),
+              })}
+            </caption>
+            <thead>
+              <tr className="border-b border-[rgba(255,255,255,0.2)]">
+                <td />
+                {comparison.map(({ scenario }) => (
+                  <th key={scenario.id} scope="col" className="py-2 px-4 text-right">
+                    <span className="block text-white">
+                      {text.scenarioName(scenario)}
+                    </span>
+                    {scenario.id === baseline.id ? (
+                      <span className="text-xs text-[#d2a0ff]">
+                        {t("roi.compare.baseline")}
+                      </span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setBaselineId(scenario.id)}
+                        className="text-xs text-[#aaa0c2] underline font-normal"
+                      >
+                        {t("roi.compare.useAsBaseline")}
+                      </button>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-[rgba(255,255,255,0.1)]">
+                <th scope="row" className="py-2 pr-4 text-left text-[#d2a0ff] font-normal">
+                  {t("roi.compare.plan")}
+                </th>
+                {comparison.map(({ scenario }) => (
+                  <td key={scenario.id} className="py-2 px-4 text-right">
+                    {text.planName(getPricingPlan(scenario.planId))}
+                  </td>
+                ))}
+              </tr>
+              {(Object.keys(metricExplanations) as RoiMetricKey[]).map((metric) => (
+                <tr key={metric} className="border-b border-[rgba(255,255,255,0.1)]">
+                  <th scope="row" className="py-2 pr-4 text-left text-[#d2a0ff] font-normal">
+                    {text.metric(metric).title}
+                  </th>
+                  {comparison.map(({ scenario, result, deltas }) => (
+                    <td key={scenario.id} className="py-2 px-4 text-right">
+                      <span className={result[metric] < 0 ? "text-red-400" : ""}>
+                        {formatMoney(result[metric])}
+                      </span>
+                      {scenario.id !== baseline.id && (
+                        <span
+                          className={`block text-xs ${
+                            deltas[metric] < 0 ? "text-red-400" : "text-[#aaa0c2]"
+                          }`}
+                        >
+                          {formatDelta(deltas[metric])}
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
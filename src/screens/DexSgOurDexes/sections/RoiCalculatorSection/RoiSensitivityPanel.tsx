@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useI18n } from "../../../../components/i18n";
+import { Button } from "../../../../components/ui/button";
+import {
+  calculateSensitivity,
+  calculateSensitivityGrid,
+  roiFields,
+  roiFieldsByKey,
+  sensitivityVariationChoices,
+  type PricingPlan,
+  type RoiInputKey,
+  type RoiInputs,
+} from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { useRoiText } from "./useRoiText";
+
+interface RoiSensitivityPanelProps {
+  inputs: RoiInputs;
+  plan: PricingPlan;
+}
+
+const barStyle = (from: number, to: number, scale: number) => {
+  const start = Math.min(from, to);
+  const width = Math.abs(to - from);
+  return {
+    left: `${50 + (start / scale) * 50}%`,
+    width: `${(width / scale) * 50}%`,
+  };
+};
+
+export const RoiSensitivityPanel = ({
+  inputs,
+  plan,
+}: RoiSensitivityPanelProps): JSX.Element => {
+  const [variationPct, setVariationPct] = useState(20);
+  const [rowKey, setRowKey] = useState<RoiInputKey>("num_partners");
+  const [columnKey, setColumnKey] = useState<RoiInputKey>("avg_tx_per_partner");
+
+  const { formatMoney, formatInputValue } = useRoiFormat();
+  const { t } = useI18n();
+  const { fieldLabel } = useRoiText();
+  const showInput = (key: RoiInputKey, value: number) =>
+    formatInputValue(roiFieldsByKey[key], value);
+  const analysis = calculateSensitivity(inputs, plan, variationPct);
+  const grid = calculateSensitivityGrid(
+    inputs,
+    rowKey,
+    columnKey,
+    plan,
+    variationPct,
+  );
+  const scale =
+    Math.max(
+      ...analysis.entries.flatMap((entry) => [
+        Math.abs(entry.low - analysis.base),
+        Math.abs(entry.high - analysis.base),
+      ]),
+    ) || 1;
+
+  return (
+    <div className="flex flex-col gap-8 mt-8 text-white">
+      <div>
+        <p className="text-sm mb-2">{t("roi.sensitivity.varyBy")}</p>
+        <div className="flex gap-2">
+          {sensitivityVariationChoices.map((pct) => (
+            <Button
+              key={pct}
+              onClick={() => setVariationPct(pct)}
+              className={`${variationPct === pct ? "bg-blue-300" : "bg-transparent"} text-white border border-white`}
+            >
+              ±{pct}%
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-[#d2a0ff] text-lg mb-1">
+          {t("roi.sensitivity.title")}
+        </h4>
+        <p className="text-sm text-[#aaa0c2] mb-4">
+          {t("roi.sensitivity.description", {
+            base: formatMoney(analysis.base),
+            percent: variationPct,
+          })}
+        </p>
+        <ul className="flex flex-col gap-2">
+          {analysis.entries.map((entry) => (
+            <li
+              key={entry.key}
+              className="grid grid-cols-[minmax(0,220px)_1fr] items-center gap-4 text-sm"
+            >
+              <span>{fieldLabel(entry.key)}</span>
+              <div className="relative h-6">
+                <div className="absolute left-1/2 top-0 h-full w-px bg-[rgba(255,255,255,0.4)]" />
+                <div
+                  className="absolute top-1 h-4 bg-[#aaa0c2] rounded-sm"
+                  style={barStyle(0, entry.low - analysis.base, scale)}
+                  title={`${showInput(entry.key, entry.lowInput)}: ${formatMoney(entry.low)}`}
+                />
+                <div
+                  className="absolute top-1 h-4 bg-blue-300 rounded-sm"
+                  style={barStyle(0, entry.high - analysis.base, scale)}
+                  title={`${showInput(entry.key, entry.highInput)}: ${formatMoney(entry.high)}`}
+                />
+              </div>
+              <span className="sr-only">
+                {t("roi.sensitivity.entry", {
+                  label: fieldLabel(entry.key),
+                  low: showInput(entry.key, entry.lowInput),
+                  lowTotal: formatMoney(entry.low),
+                  high: showInput(entry.key, entry.highInput),
+                  highTotal: formatMoney(entry.high),
+                })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <h4 className="text-[#d2a0ff] text-lg mb-4">
+          {t("roi.sensitivity.grid")}
+        </h4>
+        <div className="flex flex-wrap gap-6 mb-4 text-sm">
+          <label className="flex flex-col gap-2">
+            {t("roi.sensitivity.rows")}
+            <select
+              value={rowKey}
+              onChange={(e) => setRowKey(e.target.value as RoiInputKey)}
+              className="h-9 rounded bg-neutralswhite text-neutralsdark px-2"
+            >
+              {roiFields
+                .filter((field) => field.key !== columnKey)
+                .map((field) => (
+                  <option key={field.key} value={field.key}>
+                    {fieldLabel(field.key)}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-2">
+            {t("roi.sensitivity.columns")}
+            <select
+              value={columnKey}
+              onChange={(e) => setColumnKey(e.target.value as RoiInputKey)}
+              className="h-9 rounded bg-neutralswhite text-neutralsdark px-2"
+            >
+              {roiFields
+                .filter((field) => field.key !== rowKey)
+                .map((field) => (
+                  <option key={field.key} value={field.key}>
+                    {fieldLabel(field.key)}
+                  </option>
+                ))}
+            </select>
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="text-sm">
+            <caption className="text-left text-[#aaa0c2] mb-2">
+              {t("roi.sensitivity.gridCaption", {
+                rows: fieldLabel(rowKey),
+                columns: fieldLabel(columnKey),
+              })}
+            </caption>
+            <thead>
+              <tr>
+                <td />
+                {grid.columnInputs.map((input) => (
+                  <th
+                    key={input}
+                    scope="col"
+                    className="px-3 py-2 text-right text-[#d2a0ff] font-normal"
+                  >
+                    {showInput(columnKey, input)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {grid.rowInputs.map((rowInput, rowIndex) => (
+                <tr key={rowInput}>
+                  <th
+                    scope="row"
+                    className="px-3 py-2 text-right text-[#d2a0ff] font-normal"
+                  >
+                    {showInput(rowKey, rowInput)}
+                  </th>
+                  {grid.cells[rowIndex].map((cell, columnIndex) => {
+                    const isBase =
+                      rowInput === inputs[rowKey] &&
+                      grid.columnInputs[columnIndex] === inputs[columnKey];
+                    return (
+                      <td
+                        key={columnIndex}
+                        className={`px-3 py-2 text-right ${
+                          cell < 0
+                            ? "bg-[rgba(248,113,113,0.25)]"
+                            : "bg-[rgba(152,94,255,0.2)]"
+                        } ${isBase ? "ring-2 ring-inset ring-white font-semibold" : ""}`}
+                      >
+                        {formatMoney(cell)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
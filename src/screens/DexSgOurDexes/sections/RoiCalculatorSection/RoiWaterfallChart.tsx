@@ -0,0 +1,196 @@
+import {
+  ChartFigure,
+  ChartTooltip,
+  useChartMarks,
+} from "../../../../components/charts";
+import { useI18n } from "../../../../components/i18n";
+import { bandScale } from "../../../../lib/charts";
+import {
+  benefitWaterfall,
+  type RoiResult,
+  type WaterfallStep,
+} from "../../../../lib/roi";
+import { useRoiFormat } from "./RoiFormatContext";
+import { moneyAxis, RoiMoneyAxis } from "./RoiMoneyAxis";
+import { useRoiText } from "./useRoiText";
+
+const width = 640;
+const height = 320;
+const margin = { top: 16, right: 16, bottom: 48, left: 88 };
+
+const stepColor = (step: WaterfallStep) => {
+  if (step.kind === "total") return step.to < 0 ? "#f87171" : "#d2a0ff";
+  return step.to >= step.from ? "#5eead4" : "#f87171";
+};
+
+// Long labels go on two lines, split at the space nearest the middle
+const labelLines = (label: string) => {
+  const spaces = [...label.matchAll(/ /g)].map((match) => match.index ?? 0);
+  if (label.length <= 14 || spaces.length === 0) return [label];
+  const middle = spaces.reduce((best, index) =>
+    Math.abs(index - label.length / 2) < Math.abs(best - label.length / 2)
+      ? index
+      : best,
+  );
+  return [label.slice(0, middle), label.slice(middle + 1)];
+};
+
+export const RoiWaterfallChart = ({
+  result,
+}: {
+  result: RoiResult;
+}): JSX.Element => {
+  const format = useRoiFormat();
+  const { formatMoney } = format;
+  const { t } = useI18n();
+  const text = useRoiText();
+  const steps = benefitWaterfall(result);
+  const { active, focused, markProps } = useChartMarks(steps.length);
+
+  const axis = moneyAxis(
+    format,
+    steps.flatMap((step) => [step.from, step.to]),
+    [height - margin.bottom, margin.top],
+  );
+  const { y } = axis;
+  const x = bandScale(steps.length, [margin.left, width - margin.right]);
+  const barWidth = x.band * 0.6;
+
+  const stepLabel = (step: WaterfallStep) => {
+    switch (step.key) {
+      case "legacyCost":
+      case "platformCost":
+        return t(`roi.chart.waterfall.${step.key}`);
+      default:
+        return text.metric(step.key).title;
+    }
+  };
+  const formatDelta = (delta: number) =>
+    `${delta > 0 ? "+" : delta < 0 ? "−" : "±"}${formatMoney(Math.abs(delta))}`;
+  // Totals read as an amount; changes as what they add or take away
+  const stepValue = (step: WaterfallStep) =>
+    step.kind === "total" ? formatMoney(step.to) : formatDelta(step.to - step.from);
+  const activeStep = active === null ? null : steps[active];
+
+  const table = (
+    <table className="w-full text-sm">
+      <caption className="text-left text-[#aaa0c2] mb-2">
+        {t("roi.chart.waterfall.title")}
+      </caption>
+      <thead>
+        <tr className="border-b border-[rgba(255,255,255,0.2)]">
+          <th scope="col" className="py-2 pr-4 text-left font-normal text-[#d2a0ff]">
+            {t("roi.chart.waterfall.step")}
+          </th>
+          <th scope="col" className="py-2 px-4 text-right font-normal text-[#d2a0ff]">
+            {t("roi.chart.waterfall.change")}
+          </th>
+          <th scope="col" className="py-2 pl-4 text-right font-normal text-[#d2a0ff]">
+            {t("roi.chart.waterfall.runningTotal")}
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {steps.map((step) => (
+          <tr key={step.key} className="border-b border-[rgba(255,255,255,0.1)]">
+            <th
+              scope="row"
+              className={`py-2 pr-4 text-left ${step.kind === "total" ? "" : "font-normal"}`}
+            >
+              {stepLabel(step)}
+            </th>
+            <td className="py-2 px-4 text-right">
+              {step.kind === "total" ? "–" : formatDelta(step.to - step.from)}
+            </td>
+            <td className={`py-2 pl-4 text-right ${step.to < 0 ? "text-red-400" : ""}`}>
+              {formatMoney(step.to)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <ChartFigure
+      title={t("roi.chart.waterfall.title")}
+      description={t("roi.chart.waterfall.description")}
+      table={table}
+    >
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        role="group"
+        aria-label={t("roi.chart.waterfall.title")}
+        className="w-full h-auto overflow-visible"
+      >
+        <RoiMoneyAxis
+          axis={axis}
+          left={margin.left}
+          right={width - margin.right}
+        />
+        {steps.slice(1).map((step, index) => (
+          <line
+            key={step.key}
+            aria-hidden
+            x1={x.center(index) + barWidth / 2}
+            x2={x.center(index + 1) - barWidth / 2}
+            y1={y(steps[index].to)}
+            y2={y(steps[index].to)}
+            stroke="rgba(255,255,255,0.4)"
+            strokeDasharray="3 3"
+          />
+        ))}
+        {steps.map((step, index) => (
+          <text
+            key={step.key}
+            aria-hidden
+            x={x.center(index)}
+            y={height - margin.bottom + 18}
+            textAnchor="middle"
+            fontSize={11}
+            fill="white"
+          >
+            {labelLines(stepLabel(step)).map((line, lineIndex) => (
+              <tspan key={lineIndex} x={x.center(index)} dy={lineIndex === 0 ? 0 : 14}>
+                {line}
+              </tspan>
+            ))}
+          </text>
+        ))}
+        {steps.map((step, index) => {
+          const top = y(Math.max(step.from, step.to));
+          return (
+            <rect
+              key={step.key}
+              {...markProps(index)}
+              role="img"
+              aria-label={t("chart.value", {
+                label: stepLabel(step),
+                value: stepValue(step),
+              })}
+              x={x.center(index) - barWidth / 2}
+              y={top}
+              width={barWidth}
+              height={Math.max(y(Math.min(step.from, step.to)) - top, 1)}
+              fill={stepColor(step)}
+              stroke={active === index || focused === index ? "white" : "none"}
+              strokeWidth={2}
+              className="outline-none cursor-default"
+            />
+          );
+        })}
+      </svg>
+      {activeStep && (
+        <ChartTooltip
+          x={x.center(steps.indexOf(activeStep))}
+          y={y(Math.max(activeStep.from, activeStep.to))}
+          width={width}
+          height={height}
+        >
+          <p className="font-semibold">{stepLabel(activeStep)}</p>
+          <p>{stepValue(activeStep)}</p>
+        </ChartTooltip>
+      )}
+    </ChartFigure>
+  );
+};
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useI18n } from "../../../../components/i18n";
+import { Button } from "../../../../components/ui/button";
+import { Input } from "../../../../components/ui/input";
+import {
+  isPresetEdited,
+  type RoiScenario,
+  type ScenarioPresets,
+} from "../../../../lib/roi";
+import { useRoiText } from "./useRoiText";
+
+interface ScenarioBarProps {
+  scenarioList: RoiScenario[];
+  activeScenario: RoiScenario;
+  presets: ScenarioPresets;
+  onSelect: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onReset: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+export const ScenarioBar = ({
+  scenarioList,
+  activeScenario,
+  presets,
+  onSelect,
+  onDuplicate,
+  onRename,
+  onReset,
+  onRemove,
+}: ScenarioBarProps): JSX.Element => {
+  const [renaming, setRenaming] = useState(false);
+  const [nameDraft, setNameDraft] = useState("");
+  const edited = isPresetEdited(activeScenario, presets);
+  const { t } = useI18n();
+  const { scenarioName } = useRoiText();
+
+  const startRename = () => {
+    setNameDraft(scenarioName(activeScenario));
+    setRenaming(true);
+  };
+
+  const commitRename = () => {
+    const name = nameDraft.trim();
+    if (name) onRename(activeScenario.id, name);
+    setRenaming(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 mb-6">
+      <div className="flex flex-wrap gap-4" role="tablist" aria-label={t("roi.scenario.list")}>
+        {scenarioList.map((scenario) => (
+          <Button
+            key={scenario.id}
+            role="tab"
+            aria-selected={scenario.id === activeScenario.id}
+            onClick={() => {
+              setRenaming(false);
+              onSelect(scenario.id);
+            }}
+            className={`${scenario.id === activeScenario.id ? "bg-blue-300" : "bg-transparent"} text-white border border-white`}
+          >
+            {scenarioName(scenario)}
+            {isPresetEdited(scenario, presets) && (
+              <span className="text-xs opacity-75">
+                {t("roi.scenario.edited")}
+              </span>
+            )}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        {renaming ? (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              commitRename();
+            }}
+          >
+            <label htmlFor="scenario-name" className="sr-only">
+              {t("roi.scenario.nameLabel")}
+            </label>
+            <Input
+              id="scenario-name"
+              autoFocus
+              value={nameDraft}
+              onChange={(e) => setNameDraft(e.target.value)}
+              onKeyDown={(e) => e.key === "Escape" && setRenaming(false)}
+              className="bg-neutralswhite text-neutralsdark h-9 w-56 rounded"
+            />
+            <Button type="submit" size="sm" className="bg-blue-300 text-white">
+              {t("roi.scenario.save")}
+            </Button>
+          </form>
+        ) : (
+          <Button
+            variant="link"
+            size="sm"
+            onClick={startRename}
+            className="text-[#d2a0ff] px-0"
+          >
+            {t("roi.scenario.rename")}
+          </Button>
+        )}
+        <Button
+          variant="link"
+          size="sm"
+          onClick={() => onDuplicate(activeScenario.id)}
+          className="text-[#d2a0ff] px-0"
+        >
+          {t("roi.scenario.duplicate")}
+        </Button>
+        {edited && (
+          <Button
+            variant="link"
+            size="sm"
+            onClick={() => onReset(activeScenario.id)}
+            className="text-[#d2a0ff] px-0"
+          >
+            {t("roi.scenario.reset")}
+          </Button>
+        )}
+        {activeScenario.presetKey === null && (
+          <Button
+            variant="link"
+            size="sm"
+            onClick={() => onRemove(activeScenario.id)}
+            className="text-red-400 px-0"
+          >
+            {t("roi.scenario.delete")}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { RoiCalculatorSection } from "./RoiCalculatorSection";
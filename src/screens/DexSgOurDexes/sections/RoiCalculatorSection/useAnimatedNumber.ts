@@ -0,0 +1,37 @@
+import { useEffect, useRef, useState } from "react";
+
+const prefersReducedMotion = () =>
+  window.matchMedia?.("(prefers-reduced-motion: reduce)").matches ?? false;
+
+/**
+ * Eases from the number on screen to a new target, starting from wherever
+ * an unfinished transition got to. Jumps straight there for visitors who
+ * ask for reduced motion.
+ */
+export const useAnimatedNumber = (target: number, durationMs = 400) => {
+  const [shown, setShown] = useState(target);
+  const current = useRef(target);
+
+  useEffect(() => {
+    const from = current.current;
+    if (from === target || prefersReducedMotion()) {
+      current.current = target;
+      setShown(target);
+      return;
+    }
+
+    const start = performance.now();
+    const step = (now: number) => {
+      const progress = Math.min((now - start) / durationMs, 1);
+      const eased = 1 - (1 - progress) ** 3;
+      current.current =
+        progress === 1 ? target : from + (target - from) * eased;
+      setShown(current.current);
+      if (progress < 1) frame = window.requestAnimationFrame(step);
+    };
+    let frame = window.requestAnimationFrame(step);
+    return () => window.cancelAnimationFrame(frame);
+  }, [target, durationMs]);
+
+  return shown;
+};
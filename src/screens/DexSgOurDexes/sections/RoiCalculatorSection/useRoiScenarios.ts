@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useI18n } from "../../../../components/i18n";
+import {
+  changedInputs,
+  cloneScenario,
+  createPresetScenarios,
+  createScenarioId,
+  defaultPricingPlan,
+  partnerEquivalentInputs,
+  roundToFields,
+  type RoiInputKey,
+  type RoiPartner,
+  type RoiScenario,
+  type ScenarioPresets,
+  type SharedCalculatorState,
+} from "../../../../lib/roi";
+import { useRoiText } from "./useRoiText";
+
+// Presets plus, when opened from a shared link that changes them, the shared scenario
+const createInitialScenarios = (
+  shared: SharedCalculatorState | null,
+  presets: ScenarioPresets,
+  sharedName: string,
+) => {
+  const presetList = createPresetScenarios(presets);
+  if (!shared) return { list: presetList, activeId: "default" };
+
+  const matchesPreset =
+    !shared.name &&
+    shared.partners === null &&
+    shared.planId === defaultPricingPlan.id &&
+    changedInputs(shared.inputs, presets[shared.presetKey]).length === 0;
+  if (matchesPreset) return { list: presetList, activeId: shared.presetKey };
+
+  const sharedScenario: RoiScenario = {
+    id: createScenarioId(),
+    name: shared.name ?? sharedName,
+    inputs: shared.inputs,
+    partners: shared.partners,
+    planId: shared.planId,
+    presetKey: null,
+  };
+  return { list: [...presetList, sharedScenario], activeId: sharedScenario.id };
+};
+
+// Named scenarios kept side by side; edits stay with the scenario they were made in
+export const useRoiScenarios = (
+  presets: ScenarioPresets,
+  shared: SharedCalculatorState | null = null,
+) => {
+  const { t } = useI18n();
+  const { scenarioName } = useRoiText();
+  const [initial] = useState(() =>
+    createInitialScenarios(shared, presets, t("roi.scenario.shared")),
+  );
+  const [scenarioList, setScenarioList] = useState(initial.list);
+  const [activeId, setActiveId] = useState(initial.activeId);
+
+  const activeScenario =
+    scenarioList.find((scenario) => scenario.id === activeId) ??
+    scenarioList[0];
+
+  const updateScenario = (
+    id: string,
+    update: (scenario: RoiScenario) => RoiScenario,
+  ) =>
+    setScenarioList((prev) =>
+      prev.map((scenario) => (scenario.id === id ? update(scenario) : scenario)),
+    );
+
+  const setInput = (key: RoiInputKey, value: number) =>
+    updateScenario(activeScenario.id, (scenario) => ({
+      ...scenario,
+      inputs: { ...scenario.inputs, [key]: value },
+    }));
+
+  // Turning the table off keeps its averages as the uniform inputs
+  const setPartners = (partners: RoiPartner[] | null) =>
+    updateScenario(activeScenario.id, (scenario) => ({
+      ...scenario,
+      partners,
+      inputs: partners
+        ? partnerEquivalentInputs(scenario.inputs, partners)
+        : roundToFields(scenario.inputs),
+    }));
+
+  const setPlan = (planId: string) =>
+    updateScenario(activeScenario.id, (scenario) => ({ ...scenario, planId }));
+
+  const renameScenario = (id: string, name: string) =>
+    updateScenario(id, (scenario) => ({ ...scenario, name }));
+
+  const resetScenario = (id: string) =>
+    updateScenario(id, (scenario) =>
+      scenario.presetKey === null
+        ? scenario
+        : {
+            ...scenario,
+            inputs: presets[scenario.presetKey],
+            partners: null,
+            planId: defaultPricingPlan.id,
+          },
+    );
+
+  const duplicateScenario = (id: string) => {
+    const source = scenarioList.find((scenario) => scenario.id === id);
+    if (!source) return;
+    const copy = cloneScenario(
+      source,
+      scenarioList,
+      t("roi.scenario.copy", { name: scenarioName(source) }),
+    );
+    setScenarioList((prev) => [...prev, copy]);
+    setActiveId(copy.id);
+  };
+
+  // Replaces every scenario, e.g. with those saved on an earlier visit
+  const restoreScenarios = (list: RoiScenario[], id: string) => {
+    setScenarioList(list);
+    setActiveId(id);
+  };
+
+  const removeScenario = (id: string) => {
+    if (scenarioList.length <= 1) return;
+    const remaining = scenarioList.filter((scenario) => scenario.id !== id);
+    setScenarioList(remaining);
+    if (id === activeScenario.id) setActiveId(remaining[0].id);
+  };
+
+  return {
+    scenarioList,
+    activeScenario,
+    setActiveId,
+    setInput,
+    setPartners,
+    setPlan,
+    renameScenario,
+    resetScenario,
+    duplicateScenario,
+    removeScenario,
+    restoreScenarios,
+  };
+};
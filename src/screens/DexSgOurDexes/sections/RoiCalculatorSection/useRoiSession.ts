@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  clearCalculatorSessions,
+  loadCalculatorSession,
+  saveCalculatorSession,
+  type CalculatorSession,
+  type ScenarioPresets,
+} from "../../../../lib/roi";
+import { browserStorage } from "../../../../lib/storage";
+
+export type CalculatorSnapshot = Omit<CalculatorSession, "savedAt">;
+
+/**
+ * Keeps the calculator in this browser between visits. The last session is
+ * offered back until the visitor resumes or dismisses it, and nothing is
+ * saved over it in the meantime.
+ */
+export const useRoiSession = (
+  scope: string,
+  presets: ScenarioPresets,
+  snapshot: CalculatorSnapshot,
+  // False when a shared link already says what to show
+  offerResume: boolean,
+) => {
+  const [saved, setSaved] = useState(() =>
+    offerResume
+      ? loadCalculatorSession(browserStorage(), scope, presets)
+      : null,
+  );
+  const [cleared, setCleared] = useState(false);
+  const serialized = JSON.stringify(snapshot);
+  // What storage already holds, or the untouched calculator. Compared by
+  // value, so StrictMode's second effect run doesn't save again.
+  const stored = useRef(serialized);
+
+  useEffect(() => {
+    if (saved || serialized === stored.current) return;
+    stored.current = serialized;
+    setCleared(false);
+    saveCalculatorSession(browserStorage(), scope, {
+      ...(JSON.parse(serialized) as CalculatorSnapshot),
+      savedAt: new Date().toISOString(),
+    });
+  }, [saved, serialized, scope]);
+
+  return {
+    // The session offered for resuming, if any
+    saved,
+    dismiss: () => setSaved(null),
+    cleared,
+    clear: () => {
+      clearCalculatorSessions(browserStorage());
+      // Only a later change is saved again
+      stored.current = serialized;
+      setSaved(null);
+      setCleared(true);
+    },
+  };
+};
@@ -0,0 +1,143 @@
+import { useMemo } from "react";
+import { useI18n } from "../../../../components/i18n";
+import { isMessageKey } from "../../../../lib/i18n";
+import {
+  partnerColumns,
+  presetLabels,
+  roiFieldsByKey,
+  type PricingPlan,
+  type RoiField,
+  type RoiFormatter,
+  type RoiInputIssue,
+  type RoiInputKey,
+  type RoiMetricKey,
+  type RoiScenario,
+  type SharedLinkWarning,
+} from "../../../../lib/roi";
+
+// Calculator copy in the visitor's language. The lib keeps English labels
+// for exported reports; these look up the matching catalogue entries.
+export const useRoiText = () => {
+  const { t } = useI18n();
+
+  return useMemo(() => {
+    const fieldLabel = (key: RoiInputKey) => t(`roi.field.${key}.label`);
+
+    // Unit shown after a field's label, or "" when it has none
+    const unitLabel = (field: RoiField, format: RoiFormatter) => {
+      switch (field.kind) {
+        case "currency":
+          return format.currency.code;
+        case "percent":
+          return "%";
+        case "days":
+          return t("roi.unit.days");
+        default:
+          return "";
+      }
+    };
+
+    // A field's value as the form shows it, with its unit, e.g. "12.5%"
+    const fieldValue = (
+      field: RoiField,
+      value: number,
+      format: RoiFormatter,
+    ) => {
+      const unit = unitLabel(field, format);
+      const shown = format.formatInputValue(field, value);
+      return unit === "%" ? `${shown}%` : unit ? `${shown} ${unit}` : shown;
+    };
+
+    // Plans added to pricing.ts before their copy is translated show in English
+    const planText = (plan: PricingPlan, part: "name" | "description") => {
+      const key = `roi.plan.${plan.id}.${part}`;
+      return isMessageKey(key) ? t(key) : plan[part];
+    };
+
+    const inputError = (
+      field: RoiField,
+      issue: RoiInputIssue,
+      format: RoiFormatter,
+    ) => {
+      switch (issue.type) {
+        case "required":
+          return t("roi.error.required", { label: fieldLabel(field.key) });
+        case "number":
+          return t("roi.error.number");
+        case "integer":
+          return t("roi.error.integer");
+        case "range": {
+          const unit = unitLabel(field, format);
+          const suffix = unit === "%" ? "%" : unit ? ` ${unit}` : "";
+          const bound = (value: number) =>
+            `${format.formatFieldNumber(field, value)}${suffix}`;
+          return t("roi.error.range", {
+            min: bound(issue.min),
+            max: bound(issue.max),
+          });
+        }
+      }
+    };
+
+    return {
+      fieldLabel,
+      fieldHelp: (key: RoiInputKey) => t(`roi.field.${key}.help`),
+      unitLabel,
+      fieldValue,
+      metric: (key: RoiMetricKey) => ({
+        title: t(`roi.metric.${key}.title`),
+        formula: t(`roi.metric.${key}.formula`),
+        what: t(`roi.metric.${key}.what`),
+        why: t(`roi.metric.${key}.why`),
+        hook: t(`roi.metric.${key}.hook`),
+      }),
+      planName: (plan: PricingPlan) => planText(plan, "name"),
+      planDescription: (plan: PricingPlan) => planText(plan, "description"),
+      // Presets follow the language until the visitor renames them
+      scenarioName: (scenario: RoiScenario) =>
+        scenario.presetKey !== null &&
+        scenario.name === presetLabels[scenario.presetKey]
+          ? t(`roi.preset.${scenario.presetKey}`)
+          : scenario.name,
+      inputError,
+      // Why part of a shared link was ignored
+      linkWarning: (warning: SharedLinkWarning, format: RoiFormatter) => {
+        switch (warning.type) {
+          case "unknown":
+            return t(`roi.linkWarning.unknown.${warning.param}`, {
+              value: warning.value,
+            });
+          case "input":
+            return t("roi.linkWarning.input", {
+              label: fieldLabel(warning.key),
+              message: inputError(
+                roiFieldsByKey[warning.key],
+                warning.issue,
+                format,
+              ),
+            });
+          case "tooManyPartners":
+            return t("roi.linkWarning.tooManyPartners", { max: warning.max });
+          case "partnerSkipped":
+            return t("roi.linkWarning.partnerSkipped", {
+              row: warning.row,
+              problems: warning.problems
+                .map(({ column, issue }) => {
+                  const field = partnerColumns.find(
+                    (item) => item.key === column,
+                  )?.field;
+                  if (!field) return "";
+                  return t("roi.linkWarning.input", {
+                    label: t(`roi.partners.column.${column}`),
+                    message: inputError(field, issue, format),
+                  });
+                })
+                .join(" "),
+            });
+          default:
+            return t(`roi.linkWarning.${warning.type}`);
+        }
+      },
+    };
+  }, [t]);
+};
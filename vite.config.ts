@@ -1,11 +1,45 @@
 import react from "@vitejs/plugin-react";
 import tailwind from "tailwindcss";
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
+import { contentPlugin } from "./vite/contentPlugin";
+
+// Dev-only stand-in for the lead capture backend: logs the Contact Us
+// submission and answers 202. Set VITE_CONTACT_ENDPOINT to use a real one.
+const mockContactEndpoint = (): Plugin => ({
+  name: "mock-contact-endpoint",
+  apply: "serve",
+  configureServer(server) {
+    server.middlewares.use("/api/contact", (req, res) => {
+      if (req.method !== "POST") {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      let body = "";
+      req.on("data", (chunk) => {
+        body += chunk;
+      });
+      req.on("end", () => {
+        try {
+          server.config.logger.info(
+            `[contact] ${JSON.stringify(JSON.parse(body), null, 2)}`,
+          );
+          res.statusCode = 202;
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ ok: true }));
+        } catch {
+          res.statusCode = 400;
+          res.end();
+        }
+      });
+    });
+  },
+});
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
-  base: "./",
+  plugins: [react(), contentPlugin(), mockContactEndpoint()],
+  base: "/",
   css: {
     postcss: {
       plugins: [tailwind()],
@@ -0,0 +1,81 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import type { Plugin } from "vite";
+import {
+  formatContentIssues,
+  validateContent,
+  type ContentFile,
+  type ContentIssue,
+} from "../src/content/schema";
+
+// Validates the JSON under src/content against the TypeScript schemas in
+// src/content/schema.ts. Invalid content fails `vite build`; in dev the error
+// shows in the browser overlay and clears once the file is fixed, since Vite
+// already hot-reloads JSON imports.
+export const contentPlugin = (): Plugin => {
+  let contentDir = "";
+  let publicDir = "";
+  let isBuild = false;
+
+  // Reads every content file, using the in-flight source for the file
+  // being transformed so edits are checked before they reach the page
+  const check = (override?: { id: string; code: string }) => {
+    const files: ContentFile[] = [];
+    const issues: ContentIssue[] = [];
+    const jsonFiles = readdirSync(contentDir, {
+      recursive: true,
+      encoding: "utf8",
+    }).filter((file) => file.endsWith(".json"));
+
+    for (const relative of jsonFiles) {
+      const absolute = path.join(contentDir, relative);
+      const file = relative.split(path.sep).join("/");
+      const source =
+        override && path.resolve(override.id) === absolute
+          ? override.code
+          : readFileSync(absolute, "utf8");
+      try {
+        files.push({ file, data: JSON.parse(source) });
+      } catch (error) {
+        issues.push({
+          file,
+          path: "(root)",
+          message: `invalid JSON: ${(error as Error).message}`,
+        });
+      }
+    }
+
+    issues.push(
+      ...validateContent(files, (publicPath) =>
+        existsSync(path.join(publicDir, publicPath)),
+      ),
+    );
+    return issues.length > 0
+      ? `Invalid content:\n${formatContentIssues(issues)}`
+      : null;
+  };
+
+  return {
+    name: "dex-content",
+    enforce: "pre",
+    configResolved(config) {
+      contentDir = path.resolve(config.root, "src/content");
+      publicDir = config.publicDir;
+      isBuild = config.command === "build";
+    },
+    buildStart() {
+      const error = check();
+      if (!error) return;
+      // Fail the build outright; in dev keep serving so the overlay can
+      // report it when the file is loaded
+      if (isBuild) this.error(error);
+      this.warn(error);
+    },
+    transform(code, id) {
+      const file = id.split("?")[0];
+      if (!file.startsWith(contentDir) || !file.endsWith(".json")) return;
+      const error = check({ id: file, code });
+      if (error) this.error(error);
+    },
+  };
+};